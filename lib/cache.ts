@@ -0,0 +1,366 @@
+import fs from "fs";
+
+export type TimestampedEntry = {
+  timestamp: number;
+};
+
+const WRITE_DEBOUNCE_MS = 500;
+// Once over the quota, evict down to this share of it so that eviction
+// doesn't run again on the very next insert
+const EVICTION_TARGET_RATIO = 0.9;
+
+function entrySize(key: string, entry: unknown): number {
+  return Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(entry));
+}
+
+/**
+ * Read a JSON file written by writeJsonFile, or undefined if it is missing or
+ * can't be parsed, so a corrupt file never keeps the addon from starting
+ */
+export function readJsonFile<T>(file: string): T | undefined {
+  try {
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, "utf-8"));
+    }
+  } catch (e) {
+    console.error(`Error reading ${file}:`, e);
+  }
+  return undefined;
+}
+
+/**
+ * Write a JSON file the same crash-safe way as CacheStore: to a temporary file
+ * that is fsynced and then renamed over the real file
+ */
+export function writeJsonFile(file: string, data: unknown): void {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  const handle = fs.openSync(tempFile, "w");
+  try {
+    fs.writeFileSync(handle, JSON.stringify(data, null, 2), "utf-8");
+    fs.fsyncSync(handle);
+  } finally {
+    fs.closeSync(handle);
+  }
+  fs.renameSync(tempFile, file);
+}
+
+/**
+ * A size limit shared by several cache stores. When the stores together grow
+ * past maxBytes, the least recently used entries are evicted across all of
+ * them until they are back under 90% of it.
+ */
+export class CacheQuota {
+  maxBytes: number;
+
+  private stores: CacheStore<TimestampedEntry>[] = [];
+  private evictedCount = 0;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  register(store: CacheStore<TimestampedEntry>): void {
+    this.stores.push(store);
+  }
+
+  get usedBytes(): number {
+    return this.stores.reduce((total, store) => total + store.sizeBytes, 0);
+  }
+
+  /**
+   * If the stores are over maxBytes, evict least recently used entries until
+   * they fit in the eviction target, returning how many were evicted
+   */
+  enforce(): number {
+    let usedBytes = this.usedBytes;
+    if (usedBytes <= this.maxBytes) {
+      return 0;
+    }
+    const targetBytes = this.maxBytes * EVICTION_TARGET_RATIO;
+
+    const candidates = this.stores
+      .flatMap((store) =>
+        store.accessLog().map((access) => ({ store, ...access })),
+      )
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+
+    let evicted = 0;
+    for (const { store, key, size } of candidates) {
+      if (usedBytes <= targetBytes) {
+        break;
+      }
+      if (store.delete(key)) {
+        usedBytes -= size;
+        evicted++;
+      }
+    }
+
+    this.evictedCount += evicted;
+    return evicted;
+  }
+
+  /**
+   * How many entries were evicted since the last call
+   */
+  takeEvictedCount(): number {
+    const count = this.evictedCount;
+    this.evictedCount = 0;
+    return count;
+  }
+}
+
+export type CacheStoreOptions = {
+  /** Size quota shared with other stores */
+  quota?: CacheQuota;
+  /**
+   * How long past the TTL an entry is kept so it can still be served stale
+   * (see peek) while it is being refreshed
+   */
+  staleMs?: number;
+};
+
+/**
+ * A JSON cache file that is read once, kept in memory and written back
+ * asynchronously. Writes go to a temporary file that is fsynced and then
+ * renamed over the real file, so a crash mid-write leaves the previous
+ * contents intact.
+ */
+export class CacheStore<E extends TimestampedEntry> {
+  readonly file: string;
+  readonly ttlMs: number;
+  readonly staleMs: number;
+
+  private entries: Map<string, E> | null = null;
+  // Approximate serialized size and last access time of every entry. Access
+  // times are not persisted, so after a restart they start at the write time.
+  private sizes = new Map<string, number>();
+  private accessed = new Map<string, number>();
+  private totalBytes = 0;
+  private quota: CacheQuota | undefined;
+  private dirty = false;
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> | null = null;
+
+  constructor(file: string, ttlMs: number, options: CacheStoreOptions = {}) {
+    this.file = file;
+    this.ttlMs = ttlMs;
+    this.staleMs = options.staleMs ?? 0;
+    this.quota = options.quota;
+    this.quota?.register(this);
+  }
+
+  private load(): Map<string, E> {
+    if (this.entries) {
+      return this.entries;
+    }
+    this.entries = new Map();
+    try {
+      if (fs.existsSync(this.file)) {
+        const data = JSON.parse(fs.readFileSync(this.file, "utf-8"));
+        for (const [key, entry] of Object.entries<E>(data)) {
+          this.entries.set(key, entry);
+          this.track(key, entry, entry.timestamp);
+        }
+      }
+    } catch (e) {
+      console.error(`Error reading cache file ${this.file}:`, e);
+    }
+    return this.entries;
+  }
+
+  private track(key: string, entry: E, lastAccess: number): void {
+    const size = entrySize(key, entry);
+    this.totalBytes += size - (this.sizes.get(key) ?? 0);
+    this.sizes.set(key, size);
+    this.accessed.set(key, lastAccess);
+  }
+
+  private untrack(key: string): void {
+    this.totalBytes -= this.sizes.get(key) ?? 0;
+    this.sizes.delete(key);
+    this.accessed.delete(key);
+  }
+
+  /**
+   * Approximate size of all entries once serialized
+   */
+  get sizeBytes(): number {
+    this.load();
+    return this.totalBytes;
+  }
+
+  /**
+   * Every entry's key, size and last access time, for LRU eviction
+   */
+  accessLog(): { key: string; size: number; lastAccess: number }[] {
+    this.load();
+    return [...this.accessed].map(([key, lastAccess]) => ({
+      key,
+      size: this.sizes.get(key) ?? 0,
+      lastAccess,
+    }));
+  }
+
+  isExpired(entry: E, ttlMs: number = this.ttlMs): boolean {
+    return Date.now() - entry.timestamp >= ttlMs;
+  }
+
+  /**
+   * Whether an entry is past both its TTL and the stale window
+   */
+  private isDiscardable(entry: E): boolean {
+    return this.isExpired(entry, this.ttlMs + this.staleMs);
+  }
+
+  /**
+   * Get an entry that is still within the TTL
+   */
+  get(key: string): E | null {
+    const entry = this.peek(key);
+    if (!entry || this.isExpired(entry)) {
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Get an entry even if it is past its TTL, as long as it is within the
+   * stale window. Entries past the stale window are removed.
+   */
+  peek(key: string): E | null {
+    const entry = this.load().get(key);
+    if (!entry) {
+      return null;
+    }
+    if (this.isDiscardable(entry)) {
+      this.delete(key);
+      return null;
+    }
+    this.accessed.set(key, Date.now());
+    return entry;
+  }
+
+  /**
+   * Get an entry regardless of its age, e.g. to serve data while offline
+   */
+  getIgnoringTtl(key: string): E | null {
+    const entry = this.load().get(key);
+    if (!entry) {
+      return null;
+    }
+    this.accessed.set(key, Date.now());
+    return entry;
+  }
+
+  /**
+   * Every entry regardless of its age
+   */
+  allEntries(): [string, E][] {
+    return [...this.load()];
+  }
+
+  set(key: string, entry: E): void {
+    this.load().set(key, entry);
+    this.track(key, entry, Date.now());
+    this.markDirty();
+    this.quota?.enforce();
+  }
+
+  delete(key: string): boolean {
+    const removed = this.load().delete(key);
+    if (removed) {
+      this.untrack(key);
+      this.markDirty();
+    }
+    return removed;
+  }
+
+  /**
+   * Remove every entry whose key matches the predicate
+   */
+  deleteWhere(predicate: (key: string, entry: E) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of this.load()) {
+      if (predicate(key, entry)) {
+        this.entries!.delete(key);
+        this.untrack(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.markDirty();
+    }
+    return removed;
+  }
+
+  /**
+   * Remove all entries past the TTL and stale window, returning how many
+   * were removed
+   */
+  cleanup(): number {
+    return this.deleteWhere((_, entry) => this.isDiscardable(entry));
+  }
+
+  clear(): void {
+    this.entries = new Map();
+    this.sizes.clear();
+    this.accessed.clear();
+    this.totalBytes = 0;
+    this.markDirty();
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.flush().catch((e) =>
+        console.error(`Error writing cache file ${this.file}:`, e),
+      );
+    }, WRITE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Write pending changes to disk. Resolves once everything changed before
+   * the call has been persisted.
+   */
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    // Wait for an in-flight write; changes made during it are written next
+    while (this.writing) {
+      await this.writing;
+    }
+    if (!this.dirty || !this.entries) {
+      return;
+    }
+    this.dirty = false;
+    this.writing = this.persist(
+      JSON.stringify(Object.fromEntries(this.entries)),
+    );
+    try {
+      await this.writing;
+    } catch (e) {
+      this.dirty = true;
+      throw e;
+    } finally {
+      this.writing = null;
+    }
+  }
+
+  private async persist(data: string): Promise<void> {
+    const tempFile = `${this.file}.${process.pid}.tmp`;
+    const handle = await fs.promises.open(tempFile, "w");
+    try {
+      await handle.writeFile(data, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempFile, this.file);
+  }
+}
@@ -0,0 +1,279 @@
+import type {
+  DlcListing,
+  GameData,
+  GameRequirements,
+  SteamAppCommon,
+  SteamDeckCompatibility,
+  SteamDeckConfiguration,
+} from "./types";
+
+// Steam's Deck verification categories, as stored in steam_deck_compatibility
+const DECK_CATEGORIES: Record<string, string> = {
+  "0": "Unknown",
+  "1": "Unsupported",
+  "2": "Playable",
+  "3": "Verified",
+};
+
+// Configuration flags worth telling players about, shown when set to "1"
+const DECK_CONFIGURATION_NOTES: Partial<
+  Record<keyof SteamDeckConfiguration, string>
+> = {
+  requires_internet_for_setup:
+    "Needs an internet connection for first-time setup",
+  requires_internet_for_singleplayer:
+    "Needs an internet connection for single-player",
+  requires_manual_keyboard_invoke:
+    "The on-screen keyboard has to be opened manually",
+  requires_non_controller_launcher_nav:
+    "The launcher needs the touchscreen or a mouse",
+  small_text: "Some text is small on the Deck's screen",
+  hdr_support: "Supports HDR",
+};
+
+/**
+ * The verification level name for a Deck or SteamOS category
+ */
+function getDeckCategoryName(category: string | undefined): string {
+  return DECK_CATEGORIES[category ?? "0"] ?? "Unknown";
+}
+
+/**
+ * Turn a test result token like
+ * "#SteamDeckVerified_TestResult_InterfaceTextIsLegible" into
+ * "Interface text is legible"
+ */
+function describeDeckTestToken(token: string): string {
+  const words = token
+    .replace(/^#?.*_/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * An HTML section for the game description with the Deck verification level,
+ * its test results and notable configuration flags
+ */
+export function formatDeckCompatibility(
+  compatibility: SteamDeckCompatibility | undefined,
+): string {
+  if (!compatibility?.category || compatibility.category === "0") {
+    return "";
+  }
+
+  const notes = [
+    ...Object.values(compatibility.tests ?? {}).map((test) =>
+      describeDeckTestToken(test.token),
+    ),
+    ...Object.entries(DECK_CONFIGURATION_NOTES)
+      .filter(
+        ([flag]) =>
+          compatibility.configuration?.[
+            flag as keyof SteamDeckConfiguration
+          ] === "1",
+      )
+      .map(([, note]) => note),
+  ];
+
+  let html =
+    "<h2>Steam Deck Compatibility</h2>" +
+    `<p><strong>${getDeckCategoryName(compatibility.category)}</strong>`;
+  if (
+    compatibility.steamos_compatibility &&
+    compatibility.steamos_compatibility !== "0"
+  ) {
+    html += ` (SteamOS: ${getDeckCategoryName(compatibility.steamos_compatibility)})`;
+  }
+  if (compatibility.test_timestamp) {
+    html += ` - tested ${new Date(parseInt(compatibility.test_timestamp) * 1000).toLocaleDateString()}`;
+  }
+  html += "</p>";
+  if (notes.length > 0) {
+    html += `<ul>${notes.map((note) => `<li>${note}</li>`).join("")}</ul>`;
+  }
+  return html;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Convert store HTML (requirements, descriptions) to plain text, keeping line
+ * breaks and list items
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|ul|li|h\d|div)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+      name.startsWith("#")
+        ? String.fromCharCode(parseInt(name.slice(1)))
+        : (HTML_ENTITIES[name.toLowerCase()] ?? entity),
+    )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter((line) => line !== "")
+    .join("\n");
+}
+
+/**
+ * Escape text for use in HTML content and in double-quoted attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Plain text rendered as HTML paragraphs, one line per line
+ */
+function textToHtml(text: string): string {
+  return `<p>${text.split("\n").map(escapeHtml).join("<br>")}</p>`;
+}
+
+const PLATFORM_NAMES: Record<string, string> = {
+  windows: "Windows",
+  macos: "macOS",
+  linux: "Linux",
+};
+
+/**
+ * An HTML section with the natively supported platforms and the Windows and
+ * Linux system requirements
+ */
+export function formatPlatformSupport(
+  game: GameData,
+  common: SteamAppCommon,
+): string {
+  // The store's platforms, else the app info's comma separated oslist
+  const platforms = game.platforms
+    ? Object.entries(game.platforms)
+        .filter(([, supported]) => supported)
+        .map(([platform]) => (platform === "mac" ? "macos" : platform))
+    : (common.oslist?.split(",").map((os) => os.trim()) ?? []);
+  if (platforms.length === 0) {
+    return "";
+  }
+
+  let html =
+    "<h2>Platforms</h2>" +
+    `<p>${platforms.map((platform) => PLATFORM_NAMES[platform] ?? platform).join(", ")}`;
+  if (common.osarch) {
+    html += ` (${common.osarch}-bit)`;
+  }
+  html += "</p>";
+  html += platforms.includes("linux")
+    ? "<p>Runs natively on Linux.</p>"
+    : "<p>No native Linux version: runs on Linux through Proton.</p>";
+
+  // Steam sends an empty array instead of an object when there are none
+  const requirements: [string, GameRequirements | []][] = [
+    ["Windows", game.pc_requirements],
+    ["Linux", game.linux_requirements],
+  ];
+  for (const [platform, requirement] of requirements) {
+    if (!requirement || Array.isArray(requirement)) {
+      continue;
+    }
+    for (const [label, text] of [
+      ["Minimum", requirement.minimum],
+      ["Recommended", requirement.recommended],
+    ]) {
+      const plainText = text ? htmlToText(text) : "";
+      if (plainText !== "") {
+        html += `<h3>${platform} Requirements (${label})</h3>${textToHtml(plainText)}`;
+      }
+    }
+  }
+  return html;
+}
+
+/**
+ * An HTML section listing a game's DLC with capsules and regional prices
+ */
+export function formatDlcList(dlc: DlcListing[]): string {
+  if (dlc.length === 0) {
+    return "";
+  }
+  const items = dlc.map((listing) => {
+    const price = listing.price_overview
+      ? listing.price_overview.discount_percent > 0
+        ? `${listing.price_overview.final_formatted} (-${listing.price_overview.discount_percent}%)`
+        : listing.price_overview.final_formatted
+      : listing.release_date?.coming_soon
+        ? "Coming soon"
+        : undefined;
+    return (
+      `<li><img src="${escapeHtml(listing.header_image)}" alt="">` +
+      `<strong>${escapeHtml(listing.name)}</strong>` +
+      (price ? ` - ${escapeHtml(price)}` : "") +
+      "</li>"
+    );
+  });
+  return `<h2>DLC (${dlc.length})</h2><ul>${items.join("")}</ul>`;
+}
+
+/**
+ * A note for a DLC's own details linking back to the game it belongs to
+ */
+export function formatParentGameLink(game: GameData): string {
+  if (game.type !== "dlc" || !game.fullgame) {
+    return "";
+  }
+  return `<p>This is downloadable content for <a href="https://store.steampowered.com/app/${game.fullgame.appid}">${escapeHtml(game.fullgame.name)}</a>.</p>`;
+}
+
+/**
+ * An HTML section with the current price and discount, the cheapest package
+ * to buy and the Metacritic score. Prices are already formatted by the store
+ * for the region they were requested in.
+ */
+export function formatPurchaseInfo(game: GameData): string {
+  const lines: string[] = [];
+  if (game.is_free) {
+    lines.push("<strong>Free to play</strong>");
+  } else if (game.price_overview) {
+    const price = game.price_overview;
+    lines.push(
+      price.discount_percent > 0
+        ? `<strong>${escapeHtml(price.final_formatted)}</strong> <s>${escapeHtml(price.initial_formatted)}</s> (-${price.discount_percent}%)`
+        : `<strong>${escapeHtml(price.final_formatted)}</strong>`,
+    );
+  }
+
+  // The cheapest way to buy the game may be a package rather than the game
+  const packages = (game.package_groups ?? [])
+    .flatMap((group) => group.subs)
+    .filter((sub) => !sub.is_free_license)
+    .sort(
+      (a, b) => a.price_in_cents_with_discount - b.price_in_cents_with_discount,
+    );
+  const cheapest = packages[0];
+  if (cheapest && packages.length > 1) {
+    lines.push(
+      `Cheapest option: ${escapeHtml(htmlToText(cheapest.option_text).replace(/\n/g, " "))}`,
+    );
+  }
+
+  if (game.metacritic) {
+    lines.push(
+      `Metacritic: <a href="${escapeHtml(game.metacritic.url)}">${game.metacritic.score}</a>`,
+    );
+  }
+  if (lines.length === 0) {
+    return "";
+  }
+  return `<h2>Price</h2><p>${lines.join("<br>")}</p>`;
+}
@@ -0,0 +1,266 @@
+import fs from "fs";
+import { join, resolve } from "path";
+
+export type LibraryLocation = {
+  /** OGI's data directory, the one containing library/ */
+  path: string;
+  /** Why this location was checked, shown to the user */
+  source: string;
+};
+
+/**
+ * The fields of an OGI library entry this addon reads or writes. Everything
+ * else in the file is preserved as-is.
+ */
+export type LibraryEntry = {
+  appID: number;
+  version: string;
+  name?: string;
+  storefront?: string;
+  cwd?: string;
+  [key: string]: unknown;
+};
+
+export class LibraryEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LibraryEntryError";
+  }
+}
+
+function validateEntry(entry: unknown, appID: number): LibraryEntry {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    throw new LibraryEntryError(`Library entry for ${appID} is not an object`);
+  }
+  const { appID: entryAppID, version } = entry as Record<string, unknown>;
+  if (entryAppID !== undefined && Number(entryAppID) !== appID) {
+    throw new LibraryEntryError(
+      `Library entry for ${appID} belongs to app ${entryAppID}`,
+    );
+  }
+  if (typeof version !== "string" || version.trim() === "") {
+    throw new LibraryEntryError(`Library entry for ${appID} has no version`);
+  }
+  return entry as LibraryEntry;
+}
+
+/**
+ * Finds OGI's data directory by checking an ordered list of candidate
+ * locations, and reads and edits library entries inside it.
+ */
+export class OGILibrary {
+  /** User-configured data directory, checked before anything else */
+  overridePath = "";
+  /** Where entries are backed up before they are edited */
+  readonly backupDir: string;
+
+  constructor(backupDir: string) {
+    this.backupDir = backupDir;
+  }
+
+  /**
+   * Every location OGI may keep its data in, most specific first
+   */
+  candidates(): LibraryLocation[] {
+    const env = process.env;
+    const home = env.HOME ?? env.USERPROFILE ?? "";
+    const candidates: LibraryLocation[] = [];
+    if (this.overridePath.trim() !== "") {
+      candidates.push({
+        path: resolve(this.overridePath.trim()),
+        source: "configured path",
+      });
+    }
+
+    if (process.platform === "win32") {
+      if (env.LOCALAPPDATA) {
+        candidates.push({
+          path: join(env.LOCALAPPDATA, "Programs", "ogi-updater", "update"),
+          source: "default install",
+        });
+      }
+      if (env.APPDATA) {
+        candidates.push({
+          path: join(env.APPDATA, "OpenGameInstaller"),
+          source: "roaming app data",
+        });
+      }
+    } else if (process.platform === "darwin") {
+      candidates.push({
+        path: join(home, "Library", "Application Support", "OpenGameInstaller"),
+        source: "default install",
+      });
+    } else {
+      if (env.XDG_DATA_HOME) {
+        candidates.push({
+          path: join(env.XDG_DATA_HOME, "OpenGameInstaller"),
+          source: "XDG_DATA_HOME",
+        });
+      }
+      candidates.push({
+        path: join(home, ".local", "share", "OpenGameInstaller"),
+        source: "default install",
+      });
+      // Flatpak keeps each app's XDG data under ~/.var/app/<app id>/data
+      const flatpakApps = join(home, ".var", "app");
+      try {
+        for (const appId of fs.readdirSync(flatpakApps)) {
+          candidates.push({
+            path: join(flatpakApps, appId, "data", "OpenGameInstaller"),
+            source: `Flatpak (${appId})`,
+          });
+        }
+      } catch {
+        // Flatpak isn't installed
+      }
+    }
+
+    // Portable installs keep their data next to the app, and addons are
+    // installed in <data>/addons/<addon>
+    candidates.push({
+      path: resolve(process.cwd(), "..", ".."),
+      source: "addon install directory",
+    });
+    return candidates;
+  }
+
+  /**
+   * The first candidate that has a library directory
+   */
+  locate(): LibraryLocation | undefined {
+    return this.candidates().find((candidate) =>
+      fs.existsSync(join(candidate.path, "library")),
+    );
+  }
+
+  /**
+   * Every valid entry in the library directory. Files that can't be read or
+   * don't look like library entries are skipped.
+   */
+  listEntries(location: LibraryLocation): LibraryEntry[] {
+    const entries: LibraryEntry[] = [];
+    let files: string[];
+    try {
+      files = fs.readdirSync(join(location.path, "library"));
+    } catch (e) {
+      console.error(`Error reading OGI library at ${location.path}:`, e);
+      return entries;
+    }
+    for (const file of files) {
+      const appID = parseInt(file.replace(/\.json$/, ""));
+      if (!file.endsWith(".json") || Number.isNaN(appID)) {
+        continue;
+      }
+      try {
+        const entry = this.readEntry(location, appID);
+        if (entry) {
+          entries.push(entry);
+        }
+      } catch (e) {
+        console.error(`Skipping library entry ${file}:`, e);
+      }
+    }
+    return entries;
+  }
+
+  entryPath(location: LibraryLocation, appID: number): string {
+    return join(location.path, "library", appID + ".json");
+  }
+
+  /**
+   * Read and validate a library entry, or undefined if the game has none
+   */
+  readEntry(
+    location: LibraryLocation,
+    appID: number,
+  ): LibraryEntry | undefined {
+    const entryPath = this.entryPath(location, appID);
+    if (!fs.existsSync(entryPath)) {
+      return undefined;
+    }
+    let entry: unknown;
+    try {
+      entry = JSON.parse(fs.readFileSync(entryPath, "utf8"));
+    } catch (e) {
+      throw new LibraryEntryError(
+        `Library entry ${entryPath} is not valid JSON: ${e}`,
+      );
+    }
+    return validateEntry(entry, appID);
+  }
+
+  /**
+   * Apply an update to a library entry. Both the current and the updated
+   * entry are validated, and the file is replaced atomically so OGI never
+   * sees a half-written entry.
+   */
+  updateEntry(
+    location: LibraryLocation,
+    appID: number,
+    update: (entry: LibraryEntry) => LibraryEntry,
+  ): LibraryEntry {
+    const entry = this.readEntry(location, appID);
+    if (!entry) {
+      throw new LibraryEntryError(
+        `Library entry ${this.entryPath(location, appID)} not found`,
+      );
+    }
+    const updated = validateEntry(update({ ...entry }), appID);
+
+    writeAtomically(this.entryPath(location, appID), updated);
+    return updated;
+  }
+
+  private backupPath(appID: number): string {
+    return join(this.backupDir, appID + ".json");
+  }
+
+  hasBackup(appID: number): boolean {
+    return fs.existsSync(this.backupPath(appID));
+  }
+
+  /**
+   * The entry as it was before the first edit since the last restore
+   */
+  readBackup(appID: number): LibraryEntry | undefined {
+    if (!this.hasBackup(appID)) {
+      return undefined;
+    }
+    return validateEntry(
+      JSON.parse(fs.readFileSync(this.backupPath(appID), "utf8")),
+      appID,
+    );
+  }
+
+  /**
+   * Back up an entry before it is edited. An existing backup is kept, so
+   * editing an entry twice still leaves the original to restore.
+   */
+  backupEntry(location: LibraryLocation, appID: number): void {
+    if (this.hasBackup(appID)) {
+      return;
+    }
+    const entry = this.readEntry(location, appID);
+    if (!entry) {
+      throw new LibraryEntryError(
+        `Library entry ${this.entryPath(location, appID)} not found`,
+      );
+    }
+    fs.mkdirSync(this.backupDir, { recursive: true });
+    writeAtomically(this.backupPath(appID), entry);
+  }
+
+  deleteBackup(appID: number): boolean {
+    if (!this.hasBackup(appID)) {
+      return false;
+    }
+    fs.rmSync(this.backupPath(appID));
+    return true;
+  }
+}
+
+function writeAtomically(file: string, entry: LibraryEntry): void {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(entry, null, 2));
+  fs.renameSync(tempFile, file);
+}
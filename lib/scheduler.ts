@@ -0,0 +1,255 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
+
+export type HostLimits = {
+  /** Requests to the host that may be in flight at once */
+  concurrency: number;
+  /** Token bucket refill rate: sustained requests per second */
+  requestsPerSecond: number;
+  /** Token bucket size: requests that may go out back-to-back */
+  burst: number;
+};
+
+export type HostMetrics = {
+  queued: number;
+  active: number;
+  completed: number;
+  failed: number;
+  retries: number;
+  rateLimited: number;
+  /** Set while the host asked us to back off (429, or Retry-After) */
+  pausedUntil?: number;
+};
+
+export type RequestSchedulerOptions = {
+  hosts?: Record<string, HostLimits>;
+  defaultLimits: HostLimits;
+  /** Retries for 429 and 5xx responses before giving up */
+  maxRetries: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+};
+
+type QueuedRequest = {
+  config: AxiosRequestConfig;
+  attempt: number;
+  resolve: (response: AxiosResponse) => void;
+  reject: (error: unknown) => void;
+};
+
+type HostState = {
+  limits: HostLimits;
+  queue: QueuedRequest[];
+  tokens: number;
+  lastRefill: number;
+  pausedUntil: number;
+  wakeTimer: ReturnType<typeof setTimeout> | null;
+  metrics: Omit<HostMetrics, "queued" | "pausedUntil">;
+};
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Queues HTTP requests per host, limiting each host by concurrency and a token
+ * bucket. 429 and 5xx responses are retried with exponential backoff and full
+ * jitter, waiting at least as long as the server's Retry-After, during which
+ * the whole host is paused.
+ */
+export class RequestScheduler {
+  private options: RequestSchedulerOptions;
+  private hosts = new Map<string, HostState>();
+
+  constructor(options: RequestSchedulerOptions) {
+    this.options = options;
+  }
+
+  setHostLimits(host: string, limits: HostLimits): void {
+    this.options.hosts = { ...this.options.hosts, [host]: limits };
+    const state = this.hosts.get(host);
+    if (state) {
+      state.limits = limits;
+      state.tokens = Math.min(state.tokens, limits.burst);
+      this.pump(host);
+    }
+  }
+
+  request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const host = new URL(config.url!).host;
+    return new Promise((resolve, reject) => {
+      this.getHost(host).queue.push({
+        config,
+        attempt: 0,
+        resolve: resolve as (response: AxiosResponse) => void,
+        reject,
+      });
+      this.pump(host);
+    });
+  }
+
+  getMetrics(): Record<string, HostMetrics> {
+    const metrics: Record<string, HostMetrics> = {};
+    for (const [host, state] of this.hosts) {
+      metrics[host] = {
+        ...state.metrics,
+        queued: state.queue.length,
+        pausedUntil:
+          state.pausedUntil > Date.now() ? state.pausedUntil : undefined,
+      };
+    }
+    return metrics;
+  }
+
+  private getHost(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      const limits = this.options.hosts?.[host] ?? this.options.defaultLimits;
+      state = {
+        limits,
+        queue: [],
+        tokens: limits.burst,
+        lastRefill: Date.now(),
+        pausedUntil: 0,
+        wakeTimer: null,
+        metrics: {
+          active: 0,
+          completed: 0,
+          failed: 0,
+          retries: 0,
+          rateLimited: 0,
+        },
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private refill(state: HostState): void {
+    const now = Date.now();
+    const refilled =
+      ((now - state.lastRefill) / 1000) * state.limits.requestsPerSecond;
+    state.tokens = Math.min(state.limits.burst, state.tokens + refilled);
+    state.lastRefill = now;
+  }
+
+  /**
+   * Start as many queued requests as the host's limits allow, then schedule a
+   * wake-up for when the next token is available or the pause ends
+   */
+  private pump(host: string): void {
+    const state = this.getHost(host);
+    if (state.wakeTimer) {
+      return;
+    }
+    this.refill(state);
+
+    while (
+      state.queue.length > 0 &&
+      state.metrics.active < state.limits.concurrency &&
+      state.pausedUntil <= Date.now() &&
+      state.tokens >= 1
+    ) {
+      state.tokens -= 1;
+      this.run(host, state, state.queue.shift()!);
+    }
+
+    if (
+      state.queue.length === 0 ||
+      state.metrics.active >= state.limits.concurrency
+    ) {
+      // Either idle or woken up again when a request finishes
+      return;
+    }
+    const waitMs = Math.max(
+      state.pausedUntil - Date.now(),
+      ((1 - state.tokens) / state.limits.requestsPerSecond) * 1000,
+      0,
+    );
+    state.wakeTimer = setTimeout(() => {
+      state.wakeTimer = null;
+      this.pump(host);
+    }, waitMs);
+  }
+
+  private async run(
+    host: string,
+    state: HostState,
+    request: QueuedRequest,
+  ): Promise<void> {
+    state.metrics.active++;
+    try {
+      const response = await axios.request(request.config);
+      state.metrics.completed++;
+      request.resolve(response);
+    } catch (error) {
+      const status = axios.isAxiosError(error)
+        ? error.response?.status
+        : undefined;
+      if (
+        status === undefined ||
+        !isRetryableStatus(status) ||
+        request.attempt >= this.options.maxRetries
+      ) {
+        state.metrics.failed++;
+        request.reject(error);
+      } else {
+        this.retry(host, state, request, status, error);
+      }
+    } finally {
+      state.metrics.active--;
+      this.pump(host);
+    }
+  }
+
+  private retry(
+    host: string,
+    state: HostState,
+    request: QueuedRequest,
+    status: number,
+    error: unknown,
+  ): void {
+    const retryAfterMs = axios.isAxiosError(error)
+      ? parseRetryAfter(error.response?.headers?.["retry-after"])
+      : undefined;
+    const backoffMs =
+      Math.random() *
+      Math.min(
+        this.options.maxBackoffMs,
+        this.options.baseBackoffMs * 2 ** request.attempt,
+      );
+    const delayMs = Math.max(retryAfterMs ?? 0, backoffMs);
+
+    if (status === 429) {
+      state.metrics.rateLimited++;
+    }
+    if (status === 429 || retryAfterMs !== undefined) {
+      // The server told us to back off: hold every request to this host
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delayMs);
+    }
+    state.metrics.retries++;
+    console.log(
+      `Request to ${host} failed with ${status}, retrying in ${Math.round(delayMs)}ms (attempt ${request.attempt + 1}/${this.options.maxRetries})`,
+    );
+
+    setTimeout(() => {
+      // Retries go to the front so they keep their place in line
+      state.queue.unshift({ ...request, attempt: request.attempt + 1 });
+      this.pump(host);
+    }, delayMs);
+  }
+}
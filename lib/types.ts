@@ -1,4 +1,4 @@
-type GameRequirements = {
+export type GameRequirements = {
 	minimum: string;
 	recommended: string;
 };
@@ -76,9 +76,10 @@ export type GameData = {
 	capsule_image: string;
 	capsule_imagev5: string;
 	website: string;
-	pc_requirements: GameRequirements;
-	mac_requirements: GameRequirements;
-	linux_requirements: GameRequirements[];
+	// Steam sends an empty array when a platform has no requirements
+	pc_requirements: GameRequirements | [];
+	mac_requirements: GameRequirements | [];
+	linux_requirements: GameRequirements | [];
 	legal_notice: string;
 	developers: string[];
 	publishers: string[];
@@ -97,8 +98,42 @@ export type GameData = {
 		coming_soon: boolean;
 		date: string;
 	};
+	// Only set on DLC: the game it belongs to
+	fullgame?: {
+		appid: string;
+		name: string;
+	};
+};
+
+// Store API: /api/dlcforapp
+export type DlcForAppResponse = {
+	status: number;
+	appid: number;
+	name: string;
+	dlc?: DlcListing[];
 };
 
+export type DlcListing = {
+	id: number;
+	name: string;
+	header_image: string;
+	short_description?: string;
+	price_overview?: PriceOverview;
+	release_date?: {
+		coming_soon: boolean;
+		date: string;
+	};
+};
+
+// Store API: /api/appdetails, keyed by appID
+export type AppDetailsResponse = Record<
+	string,
+	{
+		success: boolean;
+		data: GameData;
+	}
+>;
+
 // Steam App Info API Types
 export type SteamAppInfoResponse = {
 	data: Record<string, SteamAppInfo>;
@@ -323,6 +358,7 @@ export type SteamManifest = {
 export type SteamBranch = {
 	buildid?: string;
 	description?: string;
+	pwdrequired?: string;
 	timeupdated?: string;
 };
 
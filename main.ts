@@ -3,12 +3,38 @@ import OGIAddon, {
   type BasicLibraryInfo,
   type CatalogCarouselItem,
 } from "ogi-addon";
-import { join } from "path";
+import { dirname, join } from "path";
 import fs from "fs";
-import axios from "axios";
+import axios, { type AxiosRequestConfig, type AxiosResponse } from "axios";
 import {
+  CacheQuota,
+  CacheStore,
+  readJsonFile,
+  writeJsonFile,
+  type TimestampedEntry,
+} from "./lib/cache";
+import { RequestScheduler } from "./lib/scheduler";
+import {
+  formatDeckCompatibility,
+  formatDlcList,
+  formatParentGameLink,
+  formatPlatformSupport,
+  formatPurchaseInfo,
+} from "./lib/details";
+import {
+  OGILibrary,
+  type LibraryEntry,
+  type LibraryLocation,
+} from "./lib/library";
+import {
+  type AppDetailsResponse,
+  type DlcForAppResponse,
+  type DlcListing,
   type GameData,
   type SteamAppInfo,
+  type SteamBranch,
+  type SteamDepot,
+  type SteamLaunchOption,
   type SteamAppInfoResponse,
 } from "./lib/types";
 
@@ -29,401 +55,715 @@ const UPDATE_CACHE_FILE = join(CACHE_DIR, "update-cache.json");
 const STEAM_APP_INFO_CACHE_FILE = join(CACHE_DIR, "steam-app-info.json");
 const REAL_GAME_CACHE_FILE = join(CACHE_DIR, "real-game.json");
 const CATALOG_CACHE_FILE = join(CACHE_DIR, "catalog.json");
+const BUILD_HISTORY_FILE = join(CACHE_DIR, "build-history.json");
+const DLC_CACHE_FILE = join(CACHE_DIR, "dlc.json");
 const CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 1 day in milliseconds
 /** Per-app Steam update checks: short TTL so new builds are noticed without waiting a day. */
 const UPDATE_CACHE_DURATION_MS = 15 * 60 * 1000; // 15 minutes
 const CATALOG_CACHE_DURATION_MS = 6 * 60 * 60 * 1000; // 6 hours in milliseconds
+let CACHE_MAX_SIZE_MB = 200; // shared by every cache namespace
+/** How long expired store data is kept around to serve while it refreshes. */
+const STALE_CACHE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 const RESTART_APP_FOR_FRESH_DATA =
   "Fully quit and restart OpenGameInstaller to re-check for any game updates or new catalog data.";
-let UPDATE_COOLDOWN_MS = 1500; // 1.5 seconds cooldown per game
+let UPDATE_COOLDOWN_MS = 1500; // 1.5 seconds between steamcmd requests
+
+// Store region: country code (prices, availability) and language (store text)
+let STORE_COUNTRY_CODE = "us";
+let STORE_LANGUAGE = "english";
+// Languages to fall back to for localized artwork when STORE_LANGUAGE has none
+let STORE_LANGUAGE_FALLBACKS = ["english"];
+
+// Offline mode: forced by the "offline-mode" option, or entered automatically
+// for OFFLINE_RETRY_MS whenever a request fails without reaching a server
+let OFFLINE_MODE_FORCED = false;
+const OFFLINE_RETRY_MS = 60 * 1000; // 1 minute
+let lastNetworkFailureTime = 0;
+
+function isOffline(): boolean {
+  return (
+    OFFLINE_MODE_FORCED ||
+    Date.now() - lastNetworkFailureTime < OFFLINE_RETRY_MS
+  );
+}
+
+axios.interceptors.response.use(
+  (response) => {
+    lastNetworkFailureTime = 0;
+    return response;
+  },
+  (error) => {
+    // No response at all means DNS, connection or timeout failures
+    if (axios.isAxiosError(error) && !error.response) {
+      if (!isOffline()) {
+        console.log(
+          `Network request failed (${error.code}), serving from cache for the next ${OFFLINE_RETRY_MS / 1000}s`,
+        );
+      }
+      lastNetworkFailureTime = Date.now();
+    }
+    return Promise.reject(error);
+  },
+);
+
+// Every store.steampowered.com and api.steamcmd.net request goes through this
+// scheduler, which rate limits per host and retries 429s and server errors
+const STORE_HOST = "store.steampowered.com";
+const STEAMCMD_HOST = "api.steamcmd.net";
+const steamScheduler = new RequestScheduler({
+  hosts: {
+    [STORE_HOST]: { concurrency: 4, requestsPerSecond: 2, burst: 10 },
+    [STEAMCMD_HOST]: {
+      concurrency: 2,
+      requestsPerSecond: 1000 / UPDATE_COOLDOWN_MS,
+      burst: 5,
+    },
+  },
+  defaultLimits: { concurrency: 2, requestsPerSecond: 1, burst: 2 },
+  maxRetries: 4,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 30 * 1000,
+});
+
+function steamRequest<T>(
+  config: AxiosRequestConfig & { url: string },
+): Promise<AxiosResponse<T>> {
+  return steamScheduler.request<T>({
+    ...config,
+    headers: {
+      "User-Agent": "OGI Steam-Integration/1.0.0",
+      ...config.headers,
+    },
+  });
+}
 
 // Ensure cache directory exists
 if (!fs.existsSync(CACHE_DIR)) {
   fs.mkdirSync(CACHE_DIR, { recursive: true });
 }
 
-// Queue system for update checks: appID -> queue of pending requests
+// Batching for update checks: requests arriving within UPDATE_BATCH_WINDOW_MS
+// are collected per appID and resolved together in one pass
 type UpdateCheckRequest = {
   appID: number;
   currentVersion: string;
-  resolve: (result: { version: string; available: boolean }) => void;
+  resolve: (result: UpdateCheckResult) => void;
   reject: (error: string) => void;
 };
 
-const updateQueues = new Map<number, UpdateCheckRequest[]>();
-const queueProcessors = new Map<number, boolean>(); // Track if a queue is being processed
+const UPDATE_BATCH_WINDOW_MS = 250;
+const pendingUpdateChecks = new Map<number, UpdateCheckRequest[]>();
+let updateBatchTimer: NodeJS.Timeout | null = null;
+// Latest-build lookups in flight, shared by requests from later batches
+const inFlightBuildLookups = new Map<number, Promise<UpdateCacheEntry>>();
+
+type DepotManifestSnapshot = {
+  gid: string;
+  /** Installed size in bytes */
+  size: number;
+  /** Compressed download size in bytes */
+  download: number;
+};
 
-type UpdateCacheEntry = {
+// A build as seen in steamcmd app info: its buildid and every depot manifest
+type BuildSnapshot = {
   version: string;
+  /** When the build went live on its branch (unix seconds) */
+  timeupdated?: number;
+  depots: Record<string, DepotManifestSnapshot>;
+};
+
+type UpdateCacheEntry = BuildSnapshot & {
   timestamp: number;
+  /** The build seen before this one, to tell what an update changes */
+  previous?: BuildSnapshot;
 };
 
-type UpdateCache = {
-  [appID: string]: UpdateCacheEntry;
+type BuildRecord = {
+  version: string;
+  branch: string;
+  /** When the build went live on its branch (unix seconds) */
+  timeupdated?: number;
+  /** When this addon first saw the build */
+  firstSeen: number;
+  /** Depots whose manifest changed compared to the build before it */
+  changedDepots: string[];
 };
 
-type CacheEntry<T> = {
-  data: T;
+type BuildHistoryEntry = {
   timestamp: number;
+  /** Oldest first, at most BUILD_HISTORY_LIMIT builds */
+  builds: BuildRecord[];
 };
 
-type GenericCache<T> = {
-  [key: string]: CacheEntry<T>;
+const BUILD_HISTORY_LIMIT = 50;
+
+type DepotChange = {
+  depotID: string;
+  /** Manifest gid in the new build; undefined when the depot was removed */
+  gid?: string;
+  previousGid?: string;
+  download: number;
+  sizeDelta: number;
 };
 
-function readUpdateCache(): UpdateCache {
-  try {
-    if (fs.existsSync(UPDATE_CACHE_FILE)) {
-      const cacheData = fs.readFileSync(UPDATE_CACHE_FILE, "utf-8");
-      return JSON.parse(cacheData);
-    }
-  } catch (e) {
-    console.error("Error reading update cache:", e);
-  }
-  return {};
-}
+type UpdateCheckResult = {
+  version: string;
+  available: boolean;
+  timeupdated?: number;
+  /** Build the depot changes are relative to, when it is known */
+  comparedToVersion?: string;
+  changedDepots?: DepotChange[];
+  /** Total compressed download size of the changed depots in bytes */
+  downloadSize?: number;
+  /** Change in installed size in bytes */
+  sizeDelta?: number;
+  /** Builds seen since the installed one, when it is in the build history */
+  buildsBehind?: number;
+};
 
-function writeUpdateCache(cache: UpdateCache): void {
-  try {
-    fs.writeFileSync(UPDATE_CACHE_FILE, JSON.stringify(cache, null, 2));
-  } catch (e) {
-    console.error("Error writing update cache:", e);
-  }
-}
+type CacheEntry<T> = {
+  data: T;
+  timestamp: number;
+};
 
-function readGenericCache<T>(cacheFile: string): GenericCache<T> {
-  try {
-    if (fs.existsSync(cacheFile)) {
-      const cacheData = fs.readFileSync(cacheFile, "utf-8");
-      return JSON.parse(cacheData);
-    }
-  } catch (e) {
-    console.error(`Error reading cache file ${cacheFile}:`, e);
-  }
-  return {};
+// Cache namespaces, each loaded once and written back in the background.
+// They share one size quota; least recently used entries are evicted first.
+const cacheQuota = new CacheQuota(CACHE_MAX_SIZE_MB * 1024 * 1024);
+const updateCache = new CacheStore<UpdateCacheEntry>(
+  UPDATE_CACHE_FILE,
+  UPDATE_CACHE_DURATION_MS,
+  // kept past the TTL as the last known build for offline checks
+  { quota: cacheQuota, staleMs: STALE_CACHE_RETENTION_MS },
+);
+const steamAppInfoCache = new CacheStore<CacheEntry<SteamAppInfoResponse>>(
+  STEAM_APP_INFO_CACHE_FILE,
+  CACHE_DURATION_MS,
+  { quota: cacheQuota, staleMs: STALE_CACHE_RETENTION_MS },
+);
+const realGameCache = new CacheStore<CacheEntry<GameData>>(
+  REAL_GAME_CACHE_FILE,
+  CACHE_DURATION_MS,
+  { quota: cacheQuota, staleMs: STALE_CACHE_RETENTION_MS },
+);
+const catalogCache = new CacheStore<CacheEntry<CatalogSection>>(
+  CATALOG_CACHE_FILE,
+  CATALOG_CACHE_DURATION_MS,
+  { quota: cacheQuota, staleMs: STALE_CACHE_RETENTION_MS },
+);
+const dlcCache = new CacheStore<CacheEntry<DlcListing[]>>(
+  DLC_CACHE_FILE,
+  CACHE_DURATION_MS,
+  { quota: cacheQuota, staleMs: STALE_CACHE_RETENTION_MS },
+);
+// Observed builds never expire and aren't part of the size quota or "Clear
+// All Caches"; each app's history is capped at BUILD_HISTORY_LIMIT instead
+const buildHistoryCache = new CacheStore<BuildHistoryEntry>(
+  BUILD_HISTORY_FILE,
+  Infinity,
+);
+const allCaches: CacheStore<TimestampedEntry>[] = [
+  updateCache,
+  steamAppInfoCache,
+  realGameCache,
+  catalogCache,
+  dlcCache,
+];
+
+function setCachedData<T>(
+  cache: CacheStore<CacheEntry<T>>,
+  key: string,
+  data: T,
+): void {
+  cache.set(key, {
+    data,
+    timestamp: Date.now(),
+  });
 }
 
-function writeGenericCache<T>(cacheFile: string, cache: GenericCache<T>): void {
-  try {
-    fs.writeFileSync(cacheFile, JSON.stringify(cache, null, 2));
-  } catch (e) {
-    console.error(`Error writing cache file ${cacheFile}:`, e);
-  }
-}
+type CacheLookup<T> = {
+  data: T;
+  /** Time since the data was fetched from Steam */
+  ageMs: number;
+  /** Past its TTL: a background refresh was started, or has failed */
+  stale: boolean;
+};
 
-function getCachedData<T>(
-  cacheFile: string,
-  key: string,
-  cacheDuration: number = CACHE_DURATION_MS,
-): T | null {
-  const cache = readGenericCache<T>(cacheFile);
-  const entry = cache[key];
+/** Data served from an expired cache entry, marked with how old it is */
+type StaleMarked<T> = T & { staleAgeMs?: number };
 
-  if (!entry) {
-    return null;
+// In-flight refreshes by cache file and key, so a key is only fetched once
+const pendingRefreshes = new Map<string, Promise<unknown>>();
+
+/**
+ * Stale-while-revalidate lookup. Fresh entries are served as-is; expired
+ * entries are served right away while a background refresh replaces them;
+ * only a cache miss waits on the fetcher. A failed refresh keeps the last
+ * good data, so `ageMs` keeps growing until Steam answers again. While
+ * offline, entries of any age are served and misses are never fetched.
+ * `ttlMs` overrides the cache's TTL for keys that expire sooner or later.
+ */
+async function getRevalidatedData<T>(
+  cache: CacheStore<CacheEntry<T>>,
+  key: string,
+  fetcher: () => Promise<T | undefined>,
+  ttlMs: number = cache.ttlMs,
+): Promise<CacheLookup<T> | undefined> {
+  // Offline, entries past the stale window are all there is to serve, so
+  // they must not be discarded by peek
+  const offline = isOffline();
+  const entry = offline ? cache.getIgnoringTtl(key) : cache.peek(key);
+  if (entry && !cache.isExpired(entry, ttlMs)) {
+    return {
+      data: entry.data,
+      ageMs: Date.now() - entry.timestamp,
+      stale: false,
+    };
   }
 
-  const age = Date.now() - entry.timestamp;
-  if (age >= cacheDuration) {
-    // Cache expired, remove it
-    delete cache[key];
-    writeGenericCache(cacheFile, cache);
-    return null;
+  // Offline: serve whatever is cached rather than waiting on a failed refresh
+  if (offline) {
+    return entry
+      ? { data: entry.data, ageMs: Date.now() - entry.timestamp, stale: true }
+      : undefined;
   }
 
-  return entry.data;
-}
+  const refresh = refreshCachedData(cache, key, fetcher);
+  if (entry) {
+    refresh.catch((e) =>
+      console.error(`Failed to refresh ${key} in ${cache.file}:`, e),
+    );
+    return {
+      data: entry.data,
+      ageMs: Date.now() - entry.timestamp,
+      stale: true,
+    };
+  }
 
-function setCachedData<T>(cacheFile: string, key: string, data: T): void {
-  const cache = readGenericCache<T>(cacheFile);
-  cache[key] = {
-    data,
-    timestamp: Date.now(),
-  };
-  writeGenericCache(cacheFile, cache);
+  const data = await refresh;
+  return data === undefined ? undefined : { data, ageMs: 0, stale: false };
 }
 
-/**
- * Clean up expired entries from a generic cache file
- */
-function cleanupGenericCache<T>(
-  cacheFile: string,
-  cacheDuration: number = CACHE_DURATION_MS,
-): number {
-  try {
-    if (!fs.existsSync(cacheFile)) {
-      return 0;
-    }
+function refreshCachedData<T>(
+  cache: CacheStore<CacheEntry<T>>,
+  key: string,
+  fetcher: () => Promise<T | undefined>,
+): Promise<T | undefined> {
+  const pendingKey = `${cache.file}:${key}`;
+  const pending = pendingRefreshes.get(pendingKey);
+  if (pending) {
+    return pending as Promise<T | undefined>;
+  }
 
-    const cache = readGenericCache<T>(cacheFile);
-    const now = Date.now();
-    let removedCount = 0;
-
-    // Filter out expired entries
-    const cleanedCache: GenericCache<T> = {};
-    for (const [key, entry] of Object.entries(cache)) {
-      const age = now - entry.timestamp;
-      if (age < cacheDuration) {
-        cleanedCache[key] = entry;
-      } else {
-        removedCount++;
+  const refresh = (async () => {
+    try {
+      const data = await fetcher();
+      if (data !== undefined) {
+        setCachedData(cache, key, data);
       }
+      return data;
+    } finally {
+      pendingRefreshes.delete(pendingKey);
     }
+  })();
+  pendingRefreshes.set(pendingKey, refresh);
+  return refresh;
+}
 
-    // Only write if something changed
-    if (removedCount > 0) {
-      writeGenericCache(cacheFile, cleanedCache);
-      console.log(
-        `Cleaned up ${removedCount} expired entries from ${cacheFile}`,
-      );
-    }
-
-    return removedCount;
-  } catch (e) {
-    console.error(`Error cleaning up cache file ${cacheFile}:`, e);
-    return 0;
+function formatAge(ageMs: number): string {
+  const minutes = Math.floor(ageMs / (60 * 1000));
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
   }
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"}`;
 }
 
 /**
- * Clean up expired entries from update cache
+ * Clean up all expired cache entries across all cache files, then evict
+ * least recently used entries if the caches are still over the size quota
  */
-function cleanupUpdateCache(): number {
-  try {
-    if (!fs.existsSync(UPDATE_CACHE_FILE)) {
-      return 0;
-    }
+function cleanupAllCaches(): { expired: number; evicted: number } {
+  if (isOffline()) {
+    // Expired entries are all we can serve until Steam is reachable again
+    console.log("Offline: skipping cache cleanup");
+    return { expired: 0, evicted: 0 };
+  }
+  console.log("Starting cache cleanup...");
 
-    const cache = readUpdateCache();
-    const now = Date.now();
-    let removedCount = 0;
-
-    // Filter out expired entries
-    const cleanedCache: UpdateCache = {};
-    for (const [appID, entry] of Object.entries(cache)) {
-      const age = now - entry.timestamp;
-      if (age < UPDATE_CACHE_DURATION_MS) {
-        cleanedCache[appID] = entry;
-      } else {
-        removedCount++;
-      }
-    }
+  let totalRemoved = 0;
 
-    // Only write if something changed
+  // Each cache uses its own TTL (update checks: 15 minutes, app info and
+  // games: 24 hours, catalog: 6 hours)
+  for (const cache of allCaches) {
+    const removedCount = cache.cleanup();
     if (removedCount > 0) {
-      writeUpdateCache(cleanedCache);
       console.log(
-        `Cleaned up ${removedCount} expired entries from update cache`,
+        `Cleaned up ${removedCount} expired entries from ${cache.file}`,
       );
     }
-
-    return removedCount;
-  } catch (e) {
-    console.error("Error cleaning up update cache:", e);
-    return 0;
+    totalRemoved += removedCount;
   }
-}
-
-/**
- * Clean up all expired cache entries across all cache files
- */
-function cleanupAllCaches(): void {
-  console.log("Starting cache cleanup...");
-
-  let totalRemoved = 0;
-
-  // Clean up update cache (short TTL — see UPDATE_CACHE_DURATION_MS)
-  totalRemoved += cleanupUpdateCache();
-
-  // Clean up Steam app info cache (24 hour expiration)
-  totalRemoved += cleanupGenericCache(
-    STEAM_APP_INFO_CACHE_FILE,
-    CACHE_DURATION_MS,
-  );
-
-  // Clean up real game cache (24 hour expiration)
-  totalRemoved += cleanupGenericCache(REAL_GAME_CACHE_FILE, CACHE_DURATION_MS);
 
-  // Clean up catalog cache (6 hour expiration)
-  totalRemoved += cleanupGenericCache<CatalogSection>(
-    CATALOG_CACHE_FILE,
-    CATALOG_CACHE_DURATION_MS,
-  );
+  // Includes entries evicted while adding new data since the last cleanup
+  cacheQuota.enforce();
+  const totalEvicted = cacheQuota.takeEvictedCount();
 
-  if (totalRemoved > 0) {
+  if (totalRemoved > 0 || totalEvicted > 0) {
     console.log(
-      `Cache cleanup complete: removed ${totalRemoved} expired entries total`,
+      `Cache cleanup complete: removed ${totalRemoved} expired and ${totalEvicted} evicted entries total`,
     );
   } else {
     console.log("Cache cleanup complete: no expired entries found");
   }
+
+  return { expired: totalRemoved, evicted: totalEvicted };
+}
+
+/**
+ * Write any pending cache changes to disk
+ */
+async function flushAllCaches(): Promise<void> {
+  await Promise.allSettled(
+    [...allCaches, buildHistoryCache].map((cache) => cache.flush()),
+  );
 }
 
 function getCachedUpdate(appID: number): UpdateCacheEntry | null {
-  const cache = readUpdateCache();
-  const entry = cache[appID.toString()];
+  return updateCache.get(appID.toString());
+}
 
-  if (!entry) {
-    return null;
-  }
+function removeCachedUpdate(appID: number): void {
+  updateCache.delete(appID.toString());
+}
 
-  const age = Date.now() - entry.timestamp;
-  if (age >= UPDATE_CACHE_DURATION_MS) {
-    // Cache expired, remove it
-    delete cache[appID.toString()];
-    writeUpdateCache(cache);
-    return null;
-  }
+function setCachedUpdate(appID: number, snapshot: BuildSnapshot): void {
+  // Keep the last different build around so updates can be diffed
+  const existing = updateCache.getIgnoringTtl(appID.toString());
+  const previous =
+    existing && existing.version !== snapshot.version
+      ? {
+          version: existing.version,
+          timeupdated: existing.timeupdated,
+          depots: existing.depots ?? {},
+        }
+      : existing?.previous;
+  updateCache.set(appID.toString(), {
+    ...snapshot,
+    timestamp: Date.now(),
+    previous,
+  });
+  recordBuild(appID, snapshot, existing ?? undefined);
+}
 
-  return entry;
+function getBuildHistory(appID: number): BuildRecord[] {
+  return buildHistoryCache.getIgnoringTtl(appID.toString())?.builds ?? [];
 }
 
-function removeCachedUpdate(appID: number): void {
-  const cache = readUpdateCache();
-  if (!cache[appID.toString()]) {
+/**
+ * Append a build to the app's history the first time it is seen
+ */
+function recordBuild(
+  appID: number,
+  snapshot: BuildSnapshot,
+  previous?: BuildSnapshot,
+): void {
+  const builds = getBuildHistory(appID);
+  if (builds.some((build) => build.version === snapshot.version)) {
     return;
   }
-  delete cache[appID.toString()];
-  writeUpdateCache(cache);
+
+  const record: BuildRecord = {
+    version: snapshot.version,
+    branch: getPreferredBranch(appID),
+    timeupdated: snapshot.timeupdated,
+    firstSeen: Date.now(),
+    changedDepots:
+      previous && previous.version !== snapshot.version
+        ? diffBuilds(snapshot, {
+            ...previous,
+            depots: previous.depots ?? {},
+          }).map((change) => change.depotID)
+        : [],
+  };
+  buildHistoryCache.set(appID.toString(), {
+    timestamp: Date.now(),
+    builds: [...builds, record].slice(-BUILD_HISTORY_LIMIT),
+  });
 }
 
-function removeCachedGenericKey<T>(cacheFile: string, key: string): void {
-  const cache = readGenericCache<T>(cacheFile);
-  if (!cache[key]) {
-    return;
+/**
+ * How many builds were observed after the installed one, or undefined when
+ * the installed build isn't in the history
+ */
+function countBuildsBehind(
+  appID: number,
+  installedVersion: string,
+): number | undefined {
+  const builds = getBuildHistory(appID);
+  const index = builds.findIndex((build) => build.version === installedVersion);
+  return index === -1 ? undefined : builds.length - 1 - index;
+}
+
+/**
+ * Query parameters that pin a store request to the configured region
+ */
+function storeRegionParams(): string {
+  return `cc=${encodeURIComponent(STORE_COUNTRY_CODE)}&l=${encodeURIComponent(STORE_LANGUAGE)}`;
+}
+
+/**
+ * Prefix a cache key with the configured region so entries fetched for
+ * different regions can live in the same cache file
+ */
+function regionalCacheKey(key: string | number): string {
+  return `${STORE_COUNTRY_CODE}:${STORE_LANGUAGE}:${key}`;
+}
+
+/**
+ * Languages to try for localized store assets, most preferred first
+ */
+function preferredLanguages(): string[] {
+  return [...new Set([STORE_LANGUAGE, ...STORE_LANGUAGE_FALLBACKS])];
+}
+
+/**
+ * Pick a value from a language-keyed record (header_image, library assets, ...)
+ * using the preferred languages, else the first available one
+ */
+function pickLocalized(values?: Record<string, string>): string | undefined {
+  if (!values) return undefined;
+  for (const language of preferredLanguages()) {
+    if (values[language]) {
+      return values[language];
+    }
   }
-  delete cache[key];
-  writeGenericCache(cacheFile, cache);
+  const first = Object.keys(values)[0];
+  return first !== undefined ? values[first] : undefined;
 }
 
-function setCachedUpdate(appID: number, version: string): void {
-  const cache = readUpdateCache();
-  cache[appID.toString()] = {
-    version,
-    timestamp: Date.now(),
-  };
-  writeUpdateCache(cache);
+/**
+ * Resolve a localized asset from SteamAppCommon into a full asset URL
+ */
+function getLocalizedAssetUrl(
+  appID: number,
+  assetData?: { image?: Record<string, string> },
+): string | undefined {
+  const image = pickLocalized(assetData?.image);
+  return image ? BASE_ASSET_URL(appID) + image : undefined;
 }
 
-let lastApiCallTime = new Map<number, number>();
+/**
+ * Whether a regional cache key (see regionalCacheKey) belongs to the given key
+ */
+function isRegionalCacheKeyFor(
+  cacheKey: string,
+  key: string | number,
+): boolean {
+  return cacheKey === key.toString() || cacheKey.endsWith(`:${key}`);
+}
 
-async function processUpdateCheck(request: UpdateCheckRequest): Promise<void> {
-  const { appID, currentVersion, resolve, reject } = request;
+/**
+ * Snapshot the build and depot manifests of the user's branch
+ */
+function getBuildSnapshot(appInfo: SteamAppInfo, appID: number): BuildSnapshot {
+  if (appInfo.common.public_only !== undefined) {
+    return { version: "1.0", depots: {} };
+  }
 
-  // Cache check is done in queue processor, so we only get here if cache miss
-  // Check if we need to wait for cooldown
-  const lastCall = lastApiCallTime.get(appID);
-  if (lastCall) {
-    const timeSinceLastCall = Date.now() - lastCall;
-    if (timeSinceLastCall < UPDATE_COOLDOWN_MS) {
-      const waitTime = UPDATE_COOLDOWN_MS - timeSinceLastCall;
-      console.log(`Cooldown active for appID ${appID}, waiting ${waitTime}ms`);
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+  const branchName = resolveBranch(appInfo, appID);
+  const branch = appInfo.depots?.branches?.[branchName];
+  const depots: Record<string, DepotManifestSnapshot> = {};
+  for (const [depotID, depot] of Object.entries(appInfo.depots ?? {})) {
+    if (!/^\d+$/.test(depotID) || typeof depot !== "object" || !depot) {
+      continue;
     }
+    const manifests = (depot as SteamDepot).manifests;
+    const manifest = manifests?.[branchName] ?? manifests?.["public"];
+    if (!manifest) {
+      continue;
+    }
+    depots[depotID] = {
+      gid: manifest.gid,
+      size: parseInt(manifest.size) || 0,
+      download: parseInt(manifest.download) || 0,
+    };
   }
 
-  // Make API call
-  lastApiCallTime.set(appID, Date.now());
+  return {
+    // Apps without depots or branches have no build ID, like game details
+    version: branch?.buildid ?? "1.0",
+    timeupdated: branch?.timeupdated ? parseInt(branch.timeupdated) : undefined,
+    depots,
+  };
+}
+
+/**
+ * Look up the latest build of an app from steamcmd and cache it
+ */
+async function fetchLatestBuild(appID: number): Promise<UpdateCacheEntry> {
+  // Rate limiting against steamcmd is handled by the request scheduler
   const steamAppInfo = await getSteamAppInfo(appID);
 
   if (!steamAppInfo) {
-    reject("Steam app info not found");
-    return;
+    throw "Steam app info not found";
   }
 
-  const version =
-    steamAppInfo.data[appID].common.public_only === undefined
-      ? steamAppInfo?.data[appID].depots.branches!["public"].buildid!
-      : "1.0";
-
   // Cache the result
-  setCachedUpdate(appID, version);
-
-  resolve({
-    version,
-    available: version !== currentVersion,
-  });
+  setCachedUpdate(appID, getBuildSnapshot(steamAppInfo.data[appID], appID));
+  return getCachedUpdate(appID)!;
 }
 
-async function processUpdateQueue(appID: number): Promise<void> {
-  // Mark this queue as being processed
-  if (queueProcessors.get(appID)) {
-    return; // Already processing
+/**
+ * The latest build of an app from the update cache, else steamcmd. Concurrent
+ * lookups for the same app share one request.
+ */
+function getLatestBuild(appID: number): Promise<UpdateCacheEntry> {
+  const cachedUpdate = getCachedUpdate(appID);
+  if (cachedUpdate) {
+    console.log(
+      `Using cached update info for ${appID} (version: ${cachedUpdate.version})`,
+    );
+    return Promise.resolve(cachedUpdate);
   }
 
-  queueProcessors.set(appID, true);
-
-  try {
-    while (true) {
-      const queue = updateQueues.get(appID);
-      if (!queue || queue.length === 0) {
-        break; // Queue is empty, we're done
-      }
+  let lookup = inFlightBuildLookups.get(appID);
+  if (!lookup) {
+    lookup = fetchLatestBuild(appID).finally(() =>
+      inFlightBuildLookups.delete(appID),
+    );
+    inFlightBuildLookups.set(appID, lookup);
+  }
+  return lookup;
+}
 
-      // Process the first request in the queue
-      const request = queue.shift()!;
-      let madeApiCall = false;
+/**
+ * Resolve every update check collected during the batch window. Apps are
+ * looked up in parallel (the scheduler paces the actual requests) and each
+ * app's requests are answered as soon as its build is known.
+ */
+async function processUpdateBatch(): Promise<void> {
+  updateBatchTimer = null;
+  const batch = [...pendingUpdateChecks];
+  pendingUpdateChecks.clear();
+  console.log(
+    `Checking ${batch.length} apps for updates (${batch.reduce((total, [, requests]) => total + requests.length, 0)} requests)`,
+  );
 
+  await Promise.allSettled(
+    batch.map(async ([appID, requests]) => {
       try {
-        // Check cache first - if cached, serve immediately without API call
-        const cachedUpdate = getCachedUpdate(appID);
-        if (cachedUpdate) {
-          console.log(
-            `Using cached update info for ${appID} (version: ${cachedUpdate.version})`,
-          );
-          console.log(`Request current version: ${request.currentVersion}`);
-          console.log(
-            `Request available: ${cachedUpdate.version !== request.currentVersion}`,
+        const latestBuild = await getLatestBuild(appID);
+        for (const request of requests) {
+          request.resolve(
+            buildUpdateResult(appID, latestBuild, request.currentVersion),
           );
-          request.resolve({
-            version: cachedUpdate.version,
-            available: cachedUpdate.version !== request.currentVersion,
-          });
-          // No API call made, continue to next item immediately
-          continue;
         }
-
-        // Cache miss - need to make API call
-        madeApiCall = true;
-        await processUpdateCheck(request);
       } catch (error) {
-        request.reject(typeof error === "string" ? error : "Unknown error");
+        for (const request of requests) {
+          request.reject(typeof error === "string" ? error : "Unknown error");
+        }
       }
+    }),
+  );
+}
 
-      // Only wait for cooldown if we made an API call and there are more requests
-      if (madeApiCall && queue.length > 0) {
-        await new Promise((resolve) => setTimeout(resolve, UPDATE_COOLDOWN_MS));
-      }
+/**
+ * Compare two builds' depot manifests: which depots changed, how much has to
+ * be downloaded and how the installed size changes
+ */
+function diffBuilds(
+  build: BuildSnapshot,
+  previous: BuildSnapshot,
+): DepotChange[] {
+  const changes: DepotChange[] = [];
+  for (const [depotID, manifest] of Object.entries(build.depots)) {
+    const previousManifest = previous.depots[depotID];
+    if (previousManifest?.gid === manifest.gid) {
+      continue;
+    }
+    changes.push({
+      depotID,
+      gid: manifest.gid,
+      previousGid: previousManifest?.gid,
+      download: manifest.download,
+      sizeDelta: manifest.size - (previousManifest?.size ?? 0),
+    });
+  }
+  for (const [depotID, previousManifest] of Object.entries(previous.depots)) {
+    if (!build.depots[depotID]) {
+      changes.push({
+        depotID,
+        previousGid: previousManifest.gid,
+        download: 0,
+        sizeDelta: -previousManifest.size,
+      });
     }
-  } finally {
-    // Clean up
-    queueProcessors.delete(appID);
-    updateQueues.delete(appID);
   }
+  return changes;
+}
+
+function buildUpdateResult(
+  appID: number,
+  latestBuild: UpdateCacheEntry,
+  currentVersion: string,
+): UpdateCheckResult {
+  const result: UpdateCheckResult = {
+    version: latestBuild.version,
+    available: latestBuild.version !== currentVersion,
+    timeupdated: latestBuild.timeupdated,
+    buildsBehind: countBuildsBehind(appID, currentVersion),
+  };
+  if (!result.available || !latestBuild.previous) {
+    return result;
+  }
+
+  const changedDepots = diffBuilds(latestBuild, latestBuild.previous);
+  return {
+    ...result,
+    comparedToVersion: latestBuild.previous.version,
+    changedDepots,
+    downloadSize: changedDepots.reduce(
+      (total, change) => total + change.download,
+      0,
+    ),
+    sizeDelta: changedDepots.reduce(
+      (total, change) => total + change.sizeDelta,
+      0,
+    ),
+  };
 }
 
 function queueUpdateCheck(
   appID: number,
   currentVersion: string,
-): Promise<{ version: string; available: boolean }> {
+): Promise<UpdateCheckResult> {
   return new Promise((resolve, reject) => {
-    // Add request to queue
-    if (!updateQueues.has(appID)) {
-      updateQueues.set(appID, []);
+    // Add request to the current batch
+    if (!pendingUpdateChecks.has(appID)) {
+      pendingUpdateChecks.set(appID, []);
     }
 
-    updateQueues.get(appID)!.push({
+    pendingUpdateChecks.get(appID)!.push({
       appID,
       currentVersion,
       resolve,
       reject,
     });
 
-    // Start processing if not already processing
-    processUpdateQueue(appID).catch((error) => {
-      console.error(`Error processing update queue for ${appID}:`, error);
-    });
+    // Start the batch window if this is the first request in it
+    if (!updateBatchTimer) {
+      updateBatchTimer = setTimeout(() => {
+        processUpdateBatch().catch((error) => {
+          console.error("Error processing update batch:", error);
+        });
+      }, UPDATE_BATCH_WINDOW_MS);
+    }
   });
 }
 
@@ -654,33 +994,35 @@ function stringSimilarity(a: string, b: string): number {
   }
 }
 
-// store it in filesystem cache if cached is true
+async function fetchSteamAppInfo(appID: number): Promise<SteamAppInfoResponse> {
+  const response = await steamRequest<SteamAppInfoResponse>({
+    url: `https://${STEAMCMD_HOST}/v1/info/${appID}`,
+  });
+  return response.data;
+}
+
+// store it in filesystem cache if cached is true; expired entries are served
+// while they refresh in the background
 async function getSteamAppInfo(
   appID: number,
   cached?: boolean,
-): Promise<SteamAppInfoResponse | undefined> {
+): Promise<StaleMarked<SteamAppInfoResponse> | undefined> {
   try {
-    if (cached) {
-      const cachedData = getCachedData<SteamAppInfoResponse>(
-        STEAM_APP_INFO_CACHE_FILE,
-        appID.toString(),
-      );
-      if (cachedData) {
-        console.log(`Using cached Steam app info for ${appID}`);
-        return cachedData;
-      }
+    if (!cached) {
+      return await fetchSteamAppInfo(appID);
     }
-    const response = await axios<SteamAppInfoResponse>({
-      url: `https://api.steamcmd.net/v1/info/${appID}`,
-      headers: {
-        "User-Agent": "OGI Steam-Integration/1.0.0",
-      },
-    });
-    if (cached) {
-      setCachedData(STEAM_APP_INFO_CACHE_FILE, appID.toString(), response.data);
-      console.log(`Cached Steam app info for ${appID}`);
+    const result = await getRevalidatedData(
+      steamAppInfoCache,
+      appID.toString(),
+      () => fetchSteamAppInfo(appID),
+    );
+    if (result?.stale) {
+      console.log(
+        `Using stale Steam app info for ${appID} (${formatAge(result.ageMs)} old), refreshing in background`,
+      );
+      return { ...result.data, staleAgeMs: result.ageMs };
     }
-    return response.data;
+    return result?.data;
   } catch (e) {
     console.error(e);
     return undefined;
@@ -835,77 +1177,129 @@ function calculateSortScore(
   return Math.max(0, Math.min(1, sortScore));
 }
 
-async function getRealGame(
-  titleId: number,
-  cached?: boolean,
-): Promise<GameData | undefined> {
-  if (cached) {
-    const cachedData = getCachedData<GameData>(
-      REAL_GAME_CACHE_FILE,
-      titleId.toString(),
-    );
-    if (cachedData) {
-      console.log(`Using cached game data for ${titleId}`);
-      return cachedData;
-    }
-  }
-  // Add delay to prevent rate limiting
-  await new Promise((resolve) => setTimeout(resolve, 200));
-  try {
-    const response = await axios({
-      method: "GET",
-      url: `https://store.steampowered.com/api/appdetails?appids=${titleId}&cc=us`,
-    });
-    if (!response.data[titleId].success) {
-      return undefined;
-    }
-    if (response.data[titleId].data.type === "game") {
-      if (cached) {
-        setCachedData(
-          REAL_GAME_CACHE_FILE,
-          titleId.toString(),
-          response.data[titleId].data,
-        );
-        console.log(`Cached game data for ${titleId}`);
-      }
-      return response.data[titleId].data;
-    }
-
-    return undefined;
-  } catch (e) {
-    console.error(e);
+async function fetchRealGame(titleId: number): Promise<GameData | undefined> {
+  const response = await steamRequest<AppDetailsResponse>({
+    method: "GET",
+    url: `https://${STORE_HOST}/api/appdetails?appids=${titleId}&${storeRegionParams()}`,
+  });
+  if (!response.data[titleId].success) {
     return undefined;
   }
+  // DLC is kept too so its details can link back to the game
+  const type = response.data[titleId].data.type;
+  if (type === "game" || type === "dlc") {
+    return response.data[titleId].data;
+  }
+
+  return undefined;
 }
 
-addon.onTask("forceNewUpdate", async (task, data) => {
-  // check os version to know where ogi is located
-  const os = process.platform;
-  let ogiPath = '';
-  if (os === "win32") {
-    ogiPath = join(process.env.LOCALAPPDATA!, "Programs", "ogi-updater", "update");
-  } else if (os === "linux") {
-    ogiPath = join(process.env.HOME!, ".local", "share", "OpenGameInstaller");
+async function fetchDlcListings(appID: number): Promise<DlcListing[]> {
+  const response = await steamRequest<DlcForAppResponse>({
+    url: `https://${STORE_HOST}/api/dlcforapp/?appid=${appID}&${storeRegionParams()}`,
+  });
+  if (response.data.status !== 1) {
+    return [];
   }
+  return response.data.dlc ?? [];
+}
 
-  if (ogiPath === '') {
-    task.fail("Failed to find OGI updater");
-    return;
+/**
+ * A game's DLC with names, capsules and regional prices. Expired lists are
+ * served while they refresh in the background.
+ */
+async function getDlcListings(appID: number): Promise<DlcListing[]> {
+  try {
+    const result = await getRevalidatedData(
+      dlcCache,
+      regionalCacheKey(appID),
+      () => fetchDlcListings(appID),
+    );
+    return result?.data ?? [];
+  } catch (e) {
+    console.error(`Error fetching DLC for ${appID}:`, e);
+    return [];
   }
+}
 
-  const libraryPath = join(ogiPath, "library", data.libraryInfo.appID + ".json");
-  if (!fs.existsSync(libraryPath)) {
-    task.fail("Library file not found");
+// store it in filesystem cache if cached is true; expired entries are served
+// while they refresh in the background
+async function getRealGame(
+  titleId: number,
+  cached?: boolean,
+): Promise<StaleMarked<GameData> | undefined> {
+  try {
+    if (!cached) {
+      return await fetchRealGame(titleId);
+    }
+    const result = await getRevalidatedData(
+      realGameCache,
+      regionalCacheKey(titleId),
+      () => fetchRealGame(titleId),
+    );
+    if (result?.stale) {
+      console.log(
+        `Using stale game data for ${titleId} (${formatAge(result.ageMs)} old), refreshing in background`,
+      );
+      return { ...result.data, staleAgeMs: result.ageMs };
+    }
+    return result?.data;
+  } catch (e) {
+    console.error(e);
+    return undefined;
+  }
+}
+
+// Locates OGI's data directory; the configured override is set on connect
+const ogiLibrary = new OGILibrary(join(CACHE_DIR, "library-backups"));
+
+// Library entries are bumped to a version no Steam build can match, so the
+// next update check always reports an update
+const FORCED_UPDATE_VERSION = "9999.9999.9999";
+
+/**
+ * The locator's failure message, listing every location that was checked
+ */
+function describeMissingLibrary(): string {
+  return (
+    "Failed to find the OGI library. Checked: " +
+    ogiLibrary
+      .candidates()
+      .map((candidate) => candidate.path)
+      .join(", ") +
+    ". Set the OGI Data Directory in the addon settings."
+  );
+}
+
+/**
+ * Bump a game's library entry so OGI sees an update, and drop everything
+ * cached about it so the next check starts fresh
+ */
+function forceNewUpdateForApp(location: LibraryLocation, appID: number): void {
+  ogiLibrary.backupEntry(location, appID);
+  ogiLibrary.updateEntry(location, appID, (entry) => ({
+    ...entry,
+    version: FORCED_UPDATE_VERSION,
+  }));
+  clearCachesForSteamApp(appID);
+}
+
+addon.onTask("forceNewUpdate", async (task, data) => {
+  const location = ogiLibrary.locate();
+  if (!location) {
+    task.fail(describeMissingLibrary());
     return;
   }
-  const library = JSON.parse(fs.readFileSync(libraryPath, "utf8"));
-  // set the library version to a known won't work version
-  library.version = "9999.9999.9999";
-  fs.writeFileSync(libraryPath, JSON.stringify(library, null, 2));
+  task.log(`Using OGI library at ${location.path} (${location.source})`);
 
   const steamAppID = data.libraryInfo.appID;
   task.log(`Clearing cached update and store data for app ${steamAppID}`);
-  clearCachesForSteamApp(steamAppID);
+  try {
+    forceNewUpdateForApp(location, steamAppID);
+  } catch (e) {
+    task.fail(e instanceof Error ? e.message : String(e));
+    return;
+  }
 
   await task.askForInput(
     "Force new update",
@@ -915,6 +1309,316 @@ addon.onTask("forceNewUpdate", async (task, data) => {
   task.complete();
 });
 
+addon.onTask("launchOptions", async (task, data) => {
+  const steamAppID = data.libraryInfo.appID;
+  const steamAppInfo = await getLiveOrCachedSteamAppInfo(steamAppID);
+  const appInfo = steamAppInfo?.data[steamAppID];
+  if (!appInfo) {
+    task.fail("Steam app info not found");
+    return;
+  }
+
+  const launchOptions = getLaunchOptions(appInfo, steamAppID);
+  if (launchOptions.length === 0) {
+    task.fail("Steam lists no launch options for this game on this OS");
+    return;
+  }
+  const labels = launchOptions.map(
+    (launch, index) =>
+      `${index + 1}. ${launch.description ?? "Play"}: ${launch.executable}` +
+      (launch.arguments ? ` ${launch.arguments}` : "") +
+      (launch.viaProton ? " (through Proton)" : ""),
+  );
+  task.log(`Launch options for ${steamAppID}:\n${labels.join("\n")}`);
+
+  const location = ogiLibrary.locate();
+  let entry: LibraryEntry | undefined;
+  try {
+    entry = location ? ogiLibrary.readEntry(location, steamAppID) : undefined;
+  } catch (e) {
+    task.log(`Could not read the library entry: ${e}`);
+  }
+  if (!location || !entry?.cwd) {
+    await task.askForInput(
+      "Launch Options",
+      `The game isn't installed through OGI, so nothing was changed.\n${labels.join("\n")}`,
+      new ConfigurationBuilder(),
+    );
+    task.complete();
+    return;
+  }
+
+  const result = await task.askForInput(
+    "Launch Options",
+    `Choose the launch option OGI starts this game with.\n${labels.join("\n")}`,
+    new ConfigurationBuilder()
+      .addStringOption((option) =>
+        option
+          .setName("launchOption")
+          .setDisplayName("Launch Option")
+          .setDescription("The executable and arguments to launch with.")
+          .setAllowedValues(labels)
+          .setDefaultValue(labels[0]),
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("apply")
+          .setDisplayName("Use for this game")
+          .setDescription(
+            "Set the game's launch executable and arguments in the OGI library.",
+          )
+          .setDefaultValue(true),
+      ),
+  );
+  const launch = launchOptions[labels.indexOf(result.launchOption as string)];
+  if (!launch) {
+    task.fail(`Unknown launch option ${result.launchOption}`);
+    return;
+  }
+  if (!result.apply) {
+    task.complete();
+    return;
+  }
+
+  try {
+    ogiLibrary.updateEntry(location, steamAppID, (entry) => ({
+      ...entry,
+      launchExecutable: join(entry.cwd!, launch.executable),
+      launchArguments: launch.arguments,
+    }));
+  } catch (e) {
+    task.fail(e instanceof Error ? e.message : String(e));
+    return;
+  }
+  task.log(
+    `Set the launch executable for ${steamAppID} to ${launch.executable}` +
+      (launch.arguments ? ` ${launch.arguments}` : ""),
+  );
+  task.complete();
+});
+
+addon.onTask("restorePreviousVersion", async (task, data) => {
+  const steamAppID = data.libraryInfo.appID;
+  const location = ogiLibrary.locate();
+  if (!location) {
+    task.fail(describeMissingLibrary());
+    return;
+  }
+
+  try {
+    const backup = ogiLibrary.readBackup(steamAppID);
+    if (!backup) {
+      task.fail("No previous version was backed up for this game");
+      return;
+    }
+    // Only the version is restored; anything OGI changed since is kept
+    ogiLibrary.updateEntry(location, steamAppID, (entry) => ({
+      ...entry,
+      version: backup.version,
+    }));
+    ogiLibrary.deleteBackup(steamAppID);
+    task.log(`Restored version ${backup.version} for app ${steamAppID}`);
+  } catch (e) {
+    task.fail(e instanceof Error ? e.message : String(e));
+    return;
+  }
+  clearCachesForSteamApp(steamAppID);
+
+  await task.askForInput(
+    "Restore Previous Version",
+    `The library entry is back on its previous version. ${RESTART_APP_FOR_FRESH_DATA}`,
+    new ConfigurationBuilder(),
+  );
+  task.complete();
+});
+
+addon.onTask("bulkForceNewUpdate", async (task) => {
+  const location = ogiLibrary.locate();
+  if (!location) {
+    task.fail(describeMissingLibrary());
+    return;
+  }
+  task.log(`Using OGI library at ${location.path} (${location.source})`);
+
+  const games = ogiLibrary
+    .listEntries(location)
+    .filter((entry) => entry.storefront === "steam")
+    .sort((a, b) => (a.name ?? "").localeCompare(b.name ?? ""));
+  if (games.length === 0) {
+    task.fail("No Steam games found in the OGI library");
+    return;
+  }
+
+  // One checkbox per game, keyed by appID
+  let form = new ConfigurationBuilder().addBooleanOption((option) =>
+    option
+      .setName("all")
+      .setDisplayName("All Steam Games")
+      .setDescription(`Force a new update for all ${games.length} games.`)
+      .setDefaultValue(false),
+  );
+  for (const game of games) {
+    form = form.addBooleanOption((option) =>
+      option
+        .setName(game.appID.toString())
+        .setDisplayName(game.name ?? game.appID.toString())
+        .setDescription(`App ${game.appID}, installed version ${game.version}`)
+        .setDefaultValue(false),
+    );
+  }
+
+  const result = await task.askForInput(
+    "Force New Update",
+    "Choose the games to bump to a new update. Their cached update and store data is cleared as well.",
+    form,
+  );
+  const selected = result.all
+    ? games
+    : games.filter((game) => result[game.appID.toString()]);
+  if (selected.length === 0) {
+    task.fail("No games selected");
+    return;
+  }
+
+  let failed = 0;
+  for (const [index, game] of selected.entries()) {
+    const label = `${game.name ?? "App"} (${game.appID})`;
+    try {
+      forceNewUpdateForApp(location, game.appID);
+      task.log(`[${index + 1}/${selected.length}] Bumped ${label}`);
+    } catch (e) {
+      failed++;
+      task.log(
+        `[${index + 1}/${selected.length}] Failed to bump ${label}: ${e instanceof Error ? e.message : e}`,
+      );
+    }
+  }
+
+  await task.askForInput(
+    "Force New Update",
+    `Bumped ${selected.length - failed} of ${selected.length} games` +
+      (failed > 0 ? ` (${failed} failed, see the task log)` : "") +
+      `. ${RESTART_APP_FOR_FRESH_DATA}`,
+    new ConfigurationBuilder(),
+  );
+  task.complete();
+});
+
+addon.onTask("selectBranch", async (task, data) => {
+  const steamAppID = data.libraryInfo.appID;
+  const steamAppInfo = await getLiveOrCachedSteamAppInfo(steamAppID);
+  const appInfo = steamAppInfo?.data[steamAppID];
+  if (!appInfo) {
+    task.fail("Steam app info not found");
+    return;
+  }
+
+  const branches = listPublicBranches(appInfo);
+  const currentBranch = getPreferredBranch(steamAppID);
+  const branchList = branches
+    .map(
+      (branch) =>
+        `${branch.name}` +
+        (branch.description ? ` - ${branch.description}` : "") +
+        (branch.timeupdated
+          ? ` (updated ${new Date(parseInt(branch.timeupdated) * 1000).toLocaleDateString()})`
+          : ""),
+    )
+    .join("\n");
+  task.log(`Available branches for ${steamAppID}:\n${branchList}`);
+
+  if (branches.length <= 1) {
+    await task.askForInput(
+      "Choose Steam Branch",
+      "This game has no public beta branches.",
+      new ConfigurationBuilder(),
+    );
+    task.complete();
+    return;
+  }
+
+  const result = await task.askForInput(
+    "Choose Steam Branch",
+    `Updates are checked against the selected branch's build (currently ${currentBranch}).\n${branchList}`,
+    new ConfigurationBuilder().addStringOption((option) =>
+      option
+        .setName("branch")
+        .setDisplayName("Branch")
+        .setDescription("The Steam branch this game is installed from.")
+        .setAllowedValues(branches.map((branch) => branch.name))
+        .setDefaultValue(currentBranch),
+    ),
+  );
+  const branch = result.branch as string;
+  if (!branches.some((candidate) => candidate.name === branch)) {
+    task.fail(`Unknown branch ${branch}`);
+    return;
+  }
+
+  setPreferredBranch(steamAppID, branch);
+  task.log(`Checking updates for ${steamAppID} against branch ${branch}`);
+  clearCachesForSteamApp(steamAppID);
+  task.complete();
+});
+
+addon.onTask("buildHistory", async (task, data) => {
+  const steamAppID = data.libraryInfo.appID;
+  if (!isOffline()) {
+    try {
+      await getLatestBuild(steamAppID);
+    } catch (e) {
+      task.log(`Could not check for a newer build: ${e}`);
+    }
+  }
+
+  const builds = getBuildHistory(steamAppID);
+  if (builds.length === 0) {
+    task.fail("No builds have been recorded for this game yet");
+    return;
+  }
+
+  const libraryVersion: string | undefined = data.libraryInfo.version;
+  const installedVersion = isPlaceholderVersion(libraryVersion)
+    ? getInstalledVersion(steamAppID)
+    : libraryVersion;
+  const buildsBehind =
+    installedVersion !== undefined
+      ? countBuildsBehind(steamAppID, installedVersion)
+      : undefined;
+
+  const formatDate = (time: number) => new Date(time).toLocaleString();
+  const timeline = [...builds]
+    .reverse()
+    .map(
+      (build) =>
+        `Build ${build.version} (${build.branch})` +
+        (build.version === installedVersion ? " [installed]" : "") +
+        (build.timeupdated
+          ? `, shipped ${formatDate(build.timeupdated * 1000)}`
+          : "") +
+        `, first seen ${formatDate(build.firstSeen)}` +
+        (build.changedDepots.length > 0
+          ? `, ${build.changedDepots.length} depot(s) changed: ${build.changedDepots.join(", ")}`
+          : ""),
+    );
+  for (const line of timeline) {
+    task.log(line);
+  }
+
+  const summary =
+    buildsBehind === undefined
+      ? "The installed build has not been seen by this addon, so how far behind it is is unknown."
+      : buildsBehind === 0
+        ? "The installed build is the latest one seen."
+        : `The installed build is ${buildsBehind} build(s) behind.`;
+  await task.askForInput(
+    "Build History",
+    `${summary}\n${timeline.join("\n")}`,
+    new ConfigurationBuilder(),
+  );
+  task.complete();
+});
+
 addon.on("search", ({ storefront, appID, for: forType }, event) => {
   if (forType !== "task") {
     event.resolve([]);
@@ -922,13 +1626,302 @@ addon.on("search", ({ storefront, appID, for: forType }, event) => {
   }
 
   // return a task that forces a check for update
-  event.resolve([{
+  const tasks = [{
     taskName: "forceNewUpdate",
     name: "Force New Update",
     downloadType: "task" as const,
-  }]);
+  }, {
+    taskName: "selectBranch",
+    name: "Choose Steam Branch",
+    downloadType: "task" as const,
+  }, {
+    taskName: "buildHistory",
+    name: "Build History",
+    downloadType: "task" as const,
+  }, {
+    taskName: "launchOptions",
+    name: "Launch Options",
+    downloadType: "task" as const,
+  }];
+  // a forced update can be undone until the game updates for real
+  if (ogiLibrary.hasBackup(appID)) {
+    tasks.push({
+      taskName: "restorePreviousVersion",
+      name: "Restore Previous Version",
+      downloadType: "task" as const,
+    });
+  }
+  event.resolve(tasks);
 })
 
+// Language names as accepted by the store's l= parameter
+const STEAM_LANGUAGES = [
+  "english",
+  "german",
+  "french",
+  "italian",
+  "spanish",
+  "latam",
+  "portuguese",
+  "brazilian",
+  "russian",
+  "polish",
+  "ukrainian",
+  "czech",
+  "hungarian",
+  "romanian",
+  "bulgarian",
+  "greek",
+  "turkish",
+  "dutch",
+  "danish",
+  "finnish",
+  "norwegian",
+  "swedish",
+  "japanese",
+  "koreana",
+  "schinese",
+  "tchinese",
+  "thai",
+  "vietnamese",
+  "indonesian",
+  "arabic",
+];
+
+function normalizeCountryCode(value: string | undefined): string {
+  const code = (value ?? "").trim().toLowerCase();
+  return /^[a-z]{2}$/.test(code) ? code : "us";
+}
+
+function normalizeStoreLanguage(value: string | undefined): string {
+  const language = (value ?? "").trim().toLowerCase();
+  return STEAM_LANGUAGES.includes(language) ? language : "english";
+}
+
+function parseLanguageFallbacks(value: string | undefined): string[] {
+  const languages = (value ?? "")
+    .split(",")
+    .map((language) => language.trim().toLowerCase())
+    .filter((language) => STEAM_LANGUAGES.includes(language));
+  // english is always the last resort since nearly every app ships it
+  return [...new Set([...languages, "english"])];
+}
+
+// Catalog sections, in display order. Each is a store search: top sellers
+// narrowed by a tag, a category or a raw search filter, or one of the feeds
+// (new and trending, upcoming, specials, top rated) optionally narrowed by a
+// raw filter. "recommended" is built from the tags of the user's library.
+const CATALOG_SECTION_KINDS = [
+  "tag",
+  "category",
+  "filter",
+  "new",
+  "upcoming",
+  "specials",
+  "top-rated",
+  "recommended",
+] as const;
+type CatalogSectionKind = (typeof CATALOG_SECTION_KINDS)[number];
+
+type CatalogSectionDefinition = {
+  kind: CatalogSectionKind;
+  value: string;
+  name: string;
+  key: string;
+  description: string;
+};
+
+const DEFAULT_CATALOG_SECTIONS: CatalogSectionDefinition[] = [
+  {
+    kind: "filter",
+    value: "",
+    name: "Top Sellers",
+    key: "top-sellers",
+    description: "The best selling games on Steam",
+  },
+  {
+    kind: "recommended",
+    value: "",
+    name: "Because You Own",
+    key: "recommended",
+    description: "Top sellers like the games in your library",
+  },
+  {
+    kind: "new",
+    value: "",
+    name: "New & Trending",
+    key: "new",
+    description: "Popular new releases on Steam",
+  },
+  {
+    kind: "specials",
+    value: "",
+    name: "Specials",
+    key: "specials",
+    description: "Top selling games on sale right now",
+  },
+  {
+    kind: "upcoming",
+    value: "",
+    name: "Upcoming",
+    key: "upcoming",
+    description: "Popular games that haven't been released yet",
+  },
+  {
+    kind: "top-rated",
+    value: "",
+    name: "Top Rated",
+    key: "top-rated",
+    description: "The best reviewed games on Steam",
+  },
+  {
+    kind: "tag",
+    value: "1716",
+    name: "Roguelike",
+    key: "roguelike",
+    description: "Top Roguelike games on Steam",
+  },
+  {
+    kind: "tag",
+    value: "4434",
+    name: "JRPG",
+    key: "jrpg",
+    description: "Top JRPG games on Steam",
+  },
+  {
+    kind: "category",
+    value: "1",
+    name: "Multiplayer",
+    key: "multiplayer",
+    description: "Top multiplayer games on Steam",
+  },
+  {
+    kind: "category",
+    value: "9",
+    name: "Co-op",
+    key: "coop",
+    description: "Top co-op games on Steam",
+  },
+  {
+    kind: "category",
+    value: "2",
+    name: "Single-player",
+    key: "singleplayer",
+    description: "Top single-player games on Steam",
+  },
+  {
+    kind: "category",
+    value: "31",
+    name: "VR Support",
+    key: "vr",
+    description: "Top VR games on Steam",
+  },
+  {
+    kind: "category",
+    value: "28",
+    name: "Full Controller Support",
+    key: "controller",
+    description: "Top games with full controller support",
+  },
+  {
+    kind: "category",
+    value: "49",
+    name: "PvP",
+    key: "pvp",
+    description: "Top PvP games on Steam",
+  },
+  {
+    kind: "category",
+    value: "44",
+    name: "Remote Play Together",
+    key: "remote-play",
+    description: "Games that support Remote Play Together",
+  },
+  {
+    kind: "filter",
+    value: "os=linux",
+    name: "Native Linux",
+    key: "native-linux",
+    description: "Top games that run natively on Linux, without Proton",
+  },
+  {
+    // steam_deck_compatibility category 3
+    kind: "filter",
+    value: "deck_compatibility=3",
+    name: "Verified on Steam Deck",
+    key: "deck-verified",
+    description: "Top games Valve has verified on Steam Deck",
+  },
+];
+let CATALOG_SECTIONS = DEFAULT_CATALOG_SECTIONS;
+// Listings fetched per catalog section
+let CATALOG_SECTION_SIZE = 50;
+
+/**
+ * Write sections in the "catalog-sections" option's format:
+ * "kind:value|Display Name" separated by semicolons
+ */
+function formatCatalogSections(sections: CatalogSectionDefinition[]): string {
+  return sections
+    .map((section) => `${section.kind}:${section.value}|${section.name}`)
+    .join("; ");
+}
+
+/**
+ * Parse the "catalog-sections" option. Invalid entries and repeats are
+ * skipped; sections that match a default one keep its key and description.
+ */
+function parseCatalogSections(
+  value: string | undefined,
+): CatalogSectionDefinition[] {
+  const sections: CatalogSectionDefinition[] = [];
+  for (const entry of (value ?? "").split(";")) {
+    if (entry.trim() === "") {
+      continue;
+    }
+    const match = entry.trim().match(/^([a-z-]+):([^|]*)\|(.+)$/);
+    if (
+      !match ||
+      !CATALOG_SECTION_KINDS.includes(match[1] as CatalogSectionKind)
+    ) {
+      console.warn(`Skipping invalid catalog section: ${entry.trim()}`);
+      continue;
+    }
+    const kind = match[1] as CatalogSectionKind;
+    const sectionValue = match[2].trim();
+    const name = match[3].trim();
+    // Only tag and category sections take an ID; the rest take a raw filter
+    if (
+      (kind === "tag" || kind === "category") &&
+      !/^\d+$/.test(sectionValue)
+    ) {
+      console.warn(`Skipping catalog section ${name}: ${kind} must be an ID`);
+      continue;
+    }
+
+    const builtIn = DEFAULT_CATALOG_SECTIONS.find(
+      (section) => section.kind === kind && section.value === sectionValue,
+    );
+    const key =
+      builtIn?.key ??
+      `${kind}-${sectionValue}`
+        .replace(/[^a-z0-9]+/gi, "-")
+        .replace(/-$/, "")
+        .toLowerCase();
+    if (sections.some((section) => section.key === key)) {
+      continue;
+    }
+    sections.push({
+      kind,
+      value: sectionValue,
+      name,
+      key,
+      description: builtIn?.description ?? `Top ${name} games on Steam`,
+    });
+  }
+  return sections.length > 0 ? sections : DEFAULT_CATALOG_SECTIONS;
+}
+
 addon.on("configure", (config) =>
   config
     .addNumberOption((option) =>
@@ -948,13 +1941,99 @@ addon.on("configure", (config) =>
         .setName("update-cooldown")
         .setDisplayName("Update Cooldown")
         .setDescription(
-          "The amount of time in seconds to wait between game checks.",
+          "The amount of time in seconds to wait between update check requests sent to steamcmd.",
         )
         .setMin(1)
         .setMax(10)
         .setDefaultValue(1)
         .setInputType("range"),
     )
+    .addBooleanOption((option) =>
+      option
+        .setName("offline-mode")
+        .setDisplayName("Offline Mode")
+        .setDescription(
+          "Serve search, game details, catalog and update checks only from cached data. Turns on automatically while Steam can't be reached.",
+        )
+        .setDefaultValue(false),
+    )
+    .addNumberOption((option) =>
+      option
+        .setName("cache-max-size")
+        .setDisplayName("Maximum Cache Size (MB)")
+        .setDescription(
+          "The most disk space cached Steam data may use. Least recently used entries are removed first.",
+        )
+        .setMin(10)
+        .setMax(1000)
+        .setDefaultValue(200)
+        .setInputType("range"),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("steam-country")
+        .setDisplayName("Store Country")
+        .setDescription(
+          "Two-letter country code used for prices, availability and region locks (e.g. us, de, br).",
+        )
+        .setDefaultValue("us"),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("steam-language")
+        .setDisplayName("Store Language")
+        .setDescription("The language Steam store text is requested in.")
+        .setAllowedValues(STEAM_LANGUAGES)
+        .setDefaultValue("english"),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("steam-language-fallbacks")
+        .setDisplayName("Fallback Languages")
+        .setDescription(
+          "Comma-separated languages to use for artwork when the store language has none (e.g. schinese, english).",
+        )
+        .setDefaultValue("english"),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("ogi-data-path")
+        .setDisplayName("OGI Data Directory")
+        .setDescription(
+          "Where OpenGameInstaller keeps its library, for portable or custom installs. Leave empty to find it automatically.",
+        )
+        .setDefaultValue(""),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("catalog-sections")
+        .setDisplayName("Catalog Sections")
+        .setDescription(
+          'The catalog\'s shelves in order, separated by semicolons. Each is "tag:<tag ID>|Name", "category:<category ID>|Name" or "filter:<store search filter>|Name" for top sellers, or "new:", "upcoming:", "specials:" or "top-rated:" followed by an optional filter and "|Name". "recommended:|Name" recommends games like the ones in your library. E.g. "tag:1628|Metroidvania; category:24|Local Co-op; specials:tags=122|RPGs on Sale".',
+        )
+        .setDefaultValue(formatCatalogSections(DEFAULT_CATALOG_SECTIONS)),
+    )
+    .addNumberOption((option) =>
+      option
+        .setName("catalog-section-size")
+        .setDisplayName("Games per Catalog Section")
+        .setDescription(
+          "How many games each catalog section shows. More games take longer to load.",
+        )
+        .setMin(10)
+        .setMax(200)
+        .setDefaultValue(50)
+        .setInputType("range"),
+    )
+    .addActionOption((action) =>
+      action
+        .setName("bulkForceNewUpdate")
+        .setDisplayName("Force New Update for Several Games")
+        .setDescription(
+          "Bumps the chosen Steam games in the OGI library so they update, and clears their caches.",
+        )
+        .setTaskName("bulkForceNewUpdate"),
+    )
     .addActionOption((action) =>
       action
         .setName("checkForUpdates")
@@ -971,6 +2050,15 @@ addon.on("configure", (config) =>
         )
         .setTaskName("clearAllCaches"),
     )
+    .addActionOption((action) =>
+      action
+        .setName("showRequestMetrics")
+        .setDisplayName("Show Steam Request Queue")
+        .setDescription(
+          "Shows how many Steam requests are queued, in flight, retried or rate limited.",
+        )
+        .setTaskName("showRequestMetrics"),
+    )
     .addActionOption((action) =>
       action
         .setName("cleanupExpiredCaches")
@@ -984,11 +2072,10 @@ addon.on("configure", (config) =>
 
 addon.onTask("checkForUpdates", async (task) => {
   task.log("Checking for game updates");
-  updateQueues.clear();
-  lastApiCallTime.clear();
 
   // clear the update cache
-  fs.writeFileSync(UPDATE_CACHE_FILE, JSON.stringify({}, null, 2));
+  updateCache.clear();
+  await updateCache.flush();
   await task.askForInput(
     "All Cached Updates Cleared",
     `All checks for updates have been cleared. ${RESTART_APP_FOR_FRESH_DATA}`,
@@ -999,29 +2086,27 @@ addon.onTask("checkForUpdates", async (task) => {
 
 addon.onTask("clearAllCaches", async (task) => {
   task.log("Clearing all caches");
-  updateQueues.clear();
-  lastApiCallTime.clear();
 
   // Clear all cache files
-  const cacheFiles = [
-    UPDATE_CACHE_FILE,
-    STEAM_APP_INFO_CACHE_FILE,
-    REAL_GAME_CACHE_FILE,
-    CATALOG_CACHE_FILE,
-    RESOLVED_10_FILE_VERSIONS_FILE,
-  ];
-
-  for (const cacheFile of cacheFiles) {
+  for (const cache of allCaches) {
     try {
-      fs.writeFileSync(cacheFile, JSON.stringify({}, null, 2));
-      task.log(`Cleared ${cacheFile}`);
+      cache.clear();
+      await cache.flush();
+      task.log(`Cleared ${cache.file}`);
     } catch (e) {
-      task.log(`Failed to clear ${cacheFile}: ${e}`);
+      task.log(`Failed to clear ${cache.file}: ${e}`);
     }
   }
 
+  try {
+    writeJsonFile(INSTALLED_VERSIONS_FILE, {});
+    task.log(`Cleared ${INSTALLED_VERSIONS_FILE}`);
+  } catch (e) {
+    task.log(`Failed to clear ${INSTALLED_VERSIONS_FILE}: ${e}`);
+  }
+
   // Clear the in-memory resolved versions cache as well
-  resolved10FileVersions = {};
+  installedVersions = {};
 
   await task.askForInput(
     "All Caches Cleared",
@@ -1035,11 +2120,35 @@ addon.onTask("cleanupExpiredCaches", async (task) => {
   task.log("Cleaning up expired cache entries");
 
   // Run the cleanup
-  cleanupAllCaches();
+  const { expired, evicted } = cleanupAllCaches();
+  task.log(`Removed ${expired} expired and ${evicted} evicted cache entries`);
 
   await task.askForInput(
     "Expired Caches Cleaned",
-    "All expired cache entries have been removed. Valid cache entries are still preserved.",
+    `Removed ${expired} expired cache entries and evicted ${evicted} least recently used entries to stay under the ${CACHE_MAX_SIZE_MB} MB cache limit. Valid cache entries are still preserved.`,
+    new ConfigurationBuilder(),
+  );
+  task.complete();
+});
+
+addon.onTask("showRequestMetrics", async (task) => {
+  const metrics = Object.entries(steamScheduler.getMetrics());
+  const lines = metrics.map(
+    ([host, hostMetrics]) =>
+      `${host}: ${hostMetrics.queued} queued, ${hostMetrics.active} in flight, ${hostMetrics.completed} completed, ${hostMetrics.failed} failed, ${hostMetrics.retries} retried, ${hostMetrics.rateLimited} rate limited` +
+      (hostMetrics.pausedUntil
+        ? ` (paused for ${Math.ceil((hostMetrics.pausedUntil - Date.now()) / 1000)}s)`
+        : ""),
+  );
+  for (const line of lines) {
+    task.log(line);
+  }
+
+  await task.askForInput(
+    "Steam Request Queue",
+    lines.length > 0
+      ? lines.join("\n")
+      : "No Steam requests have been made yet.",
     new ConfigurationBuilder(),
   );
   task.complete();
@@ -1052,7 +2161,46 @@ let cacheCleanupInterval: NodeJS.Timeout | null = null;
 addon.on("connect", async () => {
   console.log("Steam integration connected");
   UPDATE_COOLDOWN_MS = addon.config.getNumberValue("update-cooldown") * 1000;
+  steamScheduler.setHostLimits(STEAMCMD_HOST, {
+    concurrency: 2,
+    requestsPerSecond: 1000 / UPDATE_COOLDOWN_MS,
+    burst: 5,
+  });
   console.log("Update cooldown set to " + UPDATE_COOLDOWN_MS + "ms");
+  OFFLINE_MODE_FORCED = addon.config.getBooleanValue("offline-mode");
+  console.log("Offline mode " + (OFFLINE_MODE_FORCED ? "on" : "off"));
+  CACHE_MAX_SIZE_MB = addon.config.getNumberValue("cache-max-size");
+  cacheQuota.maxBytes = CACHE_MAX_SIZE_MB * 1024 * 1024;
+  console.log("Cache size limit set to " + CACHE_MAX_SIZE_MB + "MB");
+  STORE_COUNTRY_CODE = normalizeCountryCode(
+    addon.config.getStringValue("steam-country"),
+  );
+  STORE_LANGUAGE = normalizeStoreLanguage(
+    addon.config.getStringValue("steam-language"),
+  );
+  STORE_LANGUAGE_FALLBACKS = parseLanguageFallbacks(
+    addon.config.getStringValue("steam-language-fallbacks"),
+  );
+  console.log(
+    `Store region set to ${STORE_COUNTRY_CODE} (language: ${STORE_LANGUAGE}, fallbacks: ${STORE_LANGUAGE_FALLBACKS.join(", ")})`,
+  );
+
+  ogiLibrary.overridePath = addon.config.getStringValue("ogi-data-path") ?? "";
+  const ogiLibraryLocation = ogiLibrary.locate();
+  console.log(
+    ogiLibraryLocation
+      ? `Using OGI library at ${ogiLibraryLocation.path} (${ogiLibraryLocation.source})`
+      : "OGI library not found",
+  );
+
+  CATALOG_SECTIONS = parseCatalogSections(
+    addon.config.getStringValue("catalog-sections"),
+  );
+  CATALOG_SECTION_SIZE = addon.config.getNumberValue("catalog-section-size");
+  console.log(
+    `Catalog sections (${CATALOG_SECTION_SIZE} games each): ` +
+      CATALOG_SECTIONS.map((section) => section.name).join(", "),
+  );
 
   // Run initial cache cleanup on startup
   cleanupAllCaches();
@@ -1069,57 +2217,161 @@ addon.on("connect", async () => {
   );
 });
 
+/**
+ * Score and sort search candidates against the query, dropping poor matches
+ */
+function rankSearchResults(
+  candidates: { appID: number; name: string }[],
+  query: string,
+) {
+  return candidates
+    .map(({ appID, name }) => {
+      const similarity = stringSimilarity(name, query);
+      const sortScore = calculateSortScore(name, query, similarity);
+      return {
+        appID: appID,
+        name: name,
+        storefront: "steam",
+        capsuleImage: `https://cdn.akamai.steamstatic.com/steam/apps/${appID}/header.jpg`,
+        similarity: similarity,
+        sortScore: sortScore,
+      };
+    })
+    .filter((result) => result.similarity >= 0.1)
+    .sort((a, b) => b.sortScore - a.sortScore) // sort by enhanced sort score
+    .map((res) => {
+      const { similarity, sortScore, ...rest } = res;
+      return rest;
+    }); // remove similarity and sortScore from final result
+}
+
+/**
+ * Every game name known from the caches, for searching while offline
+ */
+function getCachedGameNames(): { appID: number; name: string }[] {
+  const names = new Map<number, string>();
+  for (const [, entry] of catalogCache.allEntries()) {
+    for (const listing of entry.data.listings) {
+      names.set(listing.appID, listing.name);
+    }
+  }
+  for (const [, entry] of steamAppInfoCache.allEntries()) {
+    for (const [appID, info] of Object.entries(entry.data.data)) {
+      if (info?.common?.name && info.common.type?.toLowerCase() === "game") {
+        names.set(parseInt(appID), info.common.name);
+      }
+    }
+  }
+  for (const [, entry] of realGameCache.allEntries()) {
+    names.set(entry.data.steam_appid, entry.data.name);
+  }
+  return [...names].map(([appID, name]) => ({ appID, name }));
+}
+
 addon.on("library-search", (query, event) => {
   event.defer(async () => {
+    if (isOffline()) {
+      console.log(`Offline: searching cached games for "${query}"`);
+      event.resolve(rankSearchResults(getCachedGameNames(), query));
+      return;
+    }
     try {
-      const results = await axios<SteamResult>({
-        url: `https://store.steampowered.com/search/results/?term=${encodeURI(query)}&category1=${encodeURI("998,994")}&ignore_preferences=1&cc=us&json=1`,
-        headers: {
-          "User-Agent": "OGI Steam-Integration/1.0.0",
-        },
+      const results = await steamRequest<SteamResult>({
+        url: `https://${STORE_HOST}/search/results/?term=${encodeURI(query)}&category1=${encodeURI("998,994")}&ignore_preferences=1&${storeRegionParams()}&json=1`,
       });
       event.resolve(
-        results.data.items
-          .map((result) => {
-            const match = result.logo.match(/apps\/(\d+)/);
-            if (!match) {
-              return null;
-            }
-            const appID = parseInt(match[1]);
-            const similarity = stringSimilarity(result.name, query);
-            const sortScore = calculateSortScore(
-              result.name,
-              query,
-              similarity,
-            );
-            return {
-              appID: appID,
-              name: result.name,
-              storefront: "steam",
-              capsuleImage: `https://cdn.akamai.steamstatic.com/steam/apps/${appID}/header.jpg`,
-              similarity: similarity,
-              sortScore: sortScore,
-            };
-          })
-          .filter((result) => result && result.similarity >= 0.1)
-          .sort((a, b) => b!.sortScore - a!.sortScore) // sort by enhanced sort score
-          .map((res) => {
-            const { similarity, sortScore, ...rest } = res!;
-            return rest;
-          }), // remove similarity and sortScore from final result
+        rankSearchResults(
+          results.data.items
+            .map((result) => {
+              const match = result.logo.match(/apps\/(\d+)/);
+              if (!match) {
+                return null;
+              }
+              return { appID: parseInt(match[1]), name: result.name };
+            })
+            .filter((result) => result !== null),
+          query,
+        ),
       );
     } catch (e) {
+      if (isOffline()) {
+        console.log(`Offline: searching cached games for "${query}"`);
+        event.resolve(rankSearchResults(getCachedGameNames(), query));
+        return;
+      }
       event.fail("Failed to search Steam");
       return;
     }
   });
 });
 
+/**
+ * Cached game data for an app regardless of its age, preferring the
+ * configured region
+ */
+function getCachedRealGame(appID: number): StaleMarked<GameData> | undefined {
+  const entry =
+    realGameCache.getIgnoringTtl(regionalCacheKey(appID)) ??
+    realGameCache
+      .allEntries()
+      .find(([key]) => isRegionalCacheKeyFor(key, appID))?.[1];
+  return entry
+    ? { ...entry.data, staleAgeMs: Date.now() - entry.timestamp }
+    : undefined;
+}
+
+/**
+ * Game data served stale-while-revalidate, falling back to any cached copy
+ * (including other regions') when Steam can't be reached or fails
+ */
+async function getLiveOrCachedRealGame(
+  appID: number,
+): Promise<StaleMarked<GameData> | undefined> {
+  const realGame = await getRealGame(appID, true);
+  if (realGame) {
+    return realGame;
+  }
+  console.log(`Falling back to any cached game data for ${appID}`);
+  return getCachedRealGame(appID);
+}
+
+/**
+ * Steamcmd app info served stale-while-revalidate, falling back to a cached
+ * copy of any age when Steam can't be reached or fails
+ */
+async function getLiveOrCachedSteamAppInfo(
+  appID: number,
+): Promise<StaleMarked<SteamAppInfoResponse> | undefined> {
+  const steamAppInfo = await getSteamAppInfo(appID, true);
+  if (steamAppInfo) {
+    return steamAppInfo;
+  }
+  console.log(`Falling back to any cached Steam app info for ${appID}`);
+  const entry = steamAppInfoCache.getIgnoringTtl(appID.toString());
+  return entry
+    ? { ...entry.data, staleAgeMs: Date.now() - entry.timestamp }
+    : undefined;
+}
+
+/**
+ * A note for game details built from cached data, with the age of the oldest
+ * part
+ */
+function formatStaleNotice(...staleAgesMs: (number | undefined)[]): string {
+  const ages = staleAgesMs.filter((age) => age !== undefined);
+  if (ages.length === 0) {
+    return "";
+  }
+  return `<p><em>Showing cached store data (last updated ${formatAge(Math.max(...ages))} ago).</em></p>`;
+}
+
 addon.on("game-details", ({ appID, storefront }, event) => {
   event.defer(async () => {
-    const realGame = await getRealGame(appID);
+    const realGame = await getLiveOrCachedRealGame(appID);
     if (realGame) {
-      const steamAppInfo = await getSteamAppInfo(realGame.steam_appid);
+      const steamAppInfo = await getLiveOrCachedSteamAppInfo(
+        realGame.steam_appid,
+      );
       if (!steamAppInfo) {
         event.fail("Steam app info not found");
         console.error("Steam app info not found for " + realGame.steam_appid);
@@ -1131,24 +2383,23 @@ addon.on("game-details", ({ appID, storefront }, event) => {
         return;
       }
 
-      const assets =
-        steamAppInfo.data[realGame.steam_appid].common.library_assets_full;
-      // Helper function: get image by language, defaulting to English, else first available
+      const common = steamAppInfo.data[realGame.steam_appid].common;
+      const assets = common.library_assets_full;
+      // Images are picked by the preferred languages, else the first available
       const baseAssetUrl = BASE_ASSET_URL(realGame.steam_appid);
-      function getAssetImage(assetData?: { image?: Record<string, string> }) {
-        if (!assetData?.image) return undefined;
-        return (
-          baseAssetUrl +
-          (assetData.image["english"] ??
-            assetData.image[Object.keys(assetData.image)[0]])
-        );
-      }
       const libraryHero =
-        getAssetImage(assets?.library_hero) ??
+        getLocalizedAssetUrl(realGame.steam_appid, assets?.library_hero) ??
         baseAssetUrl + "library_hero.jpg";
       const libraryCapsule =
-        getAssetImage(assets?.library_capsule) ??
+        getLocalizedAssetUrl(realGame.steam_appid, assets?.library_capsule) ??
         baseAssetUrl + "library_600x900_2x.jpg";
+      const libraryLogo =
+        getLocalizedAssetUrl(realGame.steam_appid, assets?.library_logo) ??
+        baseAssetUrl + "logo.png";
+      const dlc =
+        realGame.type === "game" && realGame.dlc?.length
+          ? await getDlcListings(realGame.steam_appid)
+          : [];
       console.log(
         appID,
         "is public only?",
@@ -1166,14 +2417,21 @@ addon.on("game-details", ({ appID, storefront }, event) => {
         developers: realGame.developers,
         releaseDate: realGame.release_date.date,
         coverImage: libraryHero,
+        titleImage: libraryLogo,
         basicDescription: realGame.short_description,
-        description: realGame.detailed_description,
+        description:
+          formatStaleNotice(realGame.staleAgeMs, steamAppInfo.staleAgeMs) +
+          formatParentGameLink(realGame) +
+          formatPurchaseInfo(realGame) +
+          realGame.detailed_description +
+          formatPlatformSupport(realGame, common) +
+          formatDeckCompatibility(common.steam_deck_compatibility) +
+          formatDlcList(dlc),
         latestVersion:
-          steamAppInfo.data[realGame.steam_appid].depots !== undefined
-            ? steamAppInfo?.data[realGame.steam_appid].depots.branches![
-                "public"
-              ].buildid!
-            : "1.0",
+          getBranchBuildId(
+            steamAppInfo.data[realGame.steam_appid],
+            realGame.steam_appid,
+          ) ?? "1.0",
       });
       return;
     }
@@ -1207,6 +2465,8 @@ type SteamResult = {
     name: string;
     logo: string;
   }[];
+  /** Matching results across all pages */
+  total_count?: number;
 };
 
 type CatalogSection = {
@@ -1214,189 +2474,385 @@ type CatalogSection = {
   name: string;
   description: string;
   listings: BasicLibraryInfo[];
+  /** How many games match the section on Steam, beyond the listings fetched */
+  total?: number;
+  /** Set when served from an expired cache entry: how old the listings are */
+  staleAgeMs?: number;
 };
 
-async function fetchSteamCatalogByTag(
-  tag: number,
-  key: string,
-  name: string,
-  description: string,
-): Promise<CatalogSection> {
-  // Check cache first
-  const cachedSection = getCachedData<CatalogSection>(
-    CATALOG_CACHE_FILE,
-    key,
-    CATALOG_CACHE_DURATION_MS,
-  );
-  if (cachedSection) {
-    console.log(`Using cached catalog section: ${key}`);
-    return cachedSection;
+// The store returns at most this many search results per request
+const CATALOG_PAGE_SIZE = 50;
+
+type CatalogFeed = {
+  /** Store search parameters selecting and ordering the feed */
+  query: string;
+  ttlMs: number;
+  /**
+   * Drops listings the cached store data already rules out, since the
+   * store's search index lags behind (e.g. a game released since it ran)
+   */
+  keep?: (game: GameData) => boolean;
+};
+
+const CATALOG_FEEDS: Record<CatalogSectionKind, CatalogFeed> = {
+  tag: { query: "filter=globaltopsellers", ttlMs: CATALOG_CACHE_DURATION_MS },
+  category: {
+    query: "filter=globaltopsellers",
+    ttlMs: CATALOG_CACHE_DURATION_MS,
+  },
+  filter: {
+    query: "filter=globaltopsellers",
+    ttlMs: CATALOG_CACHE_DURATION_MS,
+  },
+  new: { query: "filter=popularnew", ttlMs: 60 * 60 * 1000 }, // 1 hour
+  upcoming: {
+    query: "filter=comingsoon",
+    ttlMs: CATALOG_CACHE_DURATION_MS,
+    keep: (game) => game.release_date?.coming_soon !== false,
+  },
+  specials: {
+    query: "filter=globaltopsellers&specials=1",
+    ttlMs: 60 * 60 * 1000, // 1 hour: sales start and end on the hour
+    keep: (game) =>
+      game.is_free !== true && (game.price_overview?.discount_percent ?? 1) > 0,
+  },
+  "top-rated": {
+    query: "sort_by=Reviews_DESC",
+    ttlMs: 24 * 60 * 60 * 1000, // 1 day
+  },
+  // narrowed by the library's top tags, see fetchRecommendedSection
+  recommended: {
+    query: "filter=globaltopsellers",
+    ttlMs: CATALOG_CACHE_DURATION_MS,
+  },
+};
+
+/**
+ * The store search parameters for a section definition
+ */
+function getCatalogQuery(section: CatalogSectionDefinition): string {
+  const { query } = CATALOG_FEEDS[section.kind];
+  if (section.kind === "tag") {
+    return `${query}&tags=${section.value}`;
+  }
+  if (section.kind === "category") {
+    return `${query}&category2=${section.value}`;
   }
+  return section.value ? `${query}&${section.value}` : query;
+}
 
-  const response = await axios<SteamResult>(
-    `https://store.steampowered.com/search/results/?filter=globaltopsellers&ignore_preferences=1&json=1&hidef2p=1&category1=998&tags=${tag}`,
-    {
-      headers: {
-        "User-Agent": "OGI Steam-Integration/1.0.0",
-      },
-    },
-  );
-  const section: CatalogSection = {
-    key,
-    name,
-    description,
+/**
+ * One page of store search results for the query
+ */
+async function fetchCatalogPage(
+  query: string,
+  start: number,
+  count: number,
+): Promise<{ listings: BasicLibraryInfo[]; total?: number }> {
+  const response = await steamRequest<SteamResult>({
+    url: `https://${STORE_HOST}/search/results/?ignore_preferences=1&json=1&hidef2p=1&category1=998&start=${start}&count=${count}&${storeRegionParams()}&${query}`,
+  });
+  return {
     listings: extractApps(response.data.items),
+    total: response.data.total_count,
   };
-
-  // Cache the result
-  setCachedData(CATALOG_CACHE_FILE, key, section);
-  console.log(`Cached catalog section: ${key}`);
-
-  return section;
 }
 
-async function fetchSteamCatalogByCategory(
-  category: number,
-  key: string,
-  name: string,
-  description: string,
+/**
+ * Fetch a section's first CATALOG_SECTION_SIZE listings, paging through the
+ * store's results and dropping repeats (results shift between pages while
+ * they are read)
+ */
+async function fetchCatalogSection(
+  section: CatalogSectionDefinition,
 ): Promise<CatalogSection> {
-  // Check cache first
-  const cachedSection = getCachedData<CatalogSection>(
-    CATALOG_CACHE_FILE,
-    key,
-    CATALOG_CACHE_DURATION_MS,
+  const { key, name, description } = section;
+  const query = getCatalogQuery(section);
+  const { ttlMs, keep } = CATALOG_FEEDS[section.kind];
+  const size = CATALOG_SECTION_SIZE;
+  // Expired sections are served right away and refreshed in the background
+  const result = await getRevalidatedData(
+    catalogCache,
+    regionalCacheKey(`${key}:${size}`),
+    async () => {
+      const listings = new Map<number, BasicLibraryInfo>();
+      let total: number | undefined;
+      let start = 0;
+      while (listings.size < size) {
+        const count = Math.min(CATALOG_PAGE_SIZE, size - listings.size);
+        const page = await fetchCatalogPage(query, start, count);
+        start += count;
+        total = page.total ?? total;
+        for (const listing of page.listings) {
+          const cachedGame = realGameCache.getIgnoringTtl(
+            regionalCacheKey(listing.appID),
+          )?.data;
+          if (keep && cachedGame && !keep(cachedGame)) {
+            continue;
+          }
+          if (!listings.has(listing.appID) && listings.size < size) {
+            listings.set(listing.appID, listing);
+          }
+        }
+        if (
+          page.listings.length === 0 ||
+          (total !== undefined && start >= total)
+        ) {
+          break;
+        }
+      }
+      const catalogSection: CatalogSection = {
+        key,
+        name,
+        description,
+        listings: [...listings.values()],
+        total: total ?? listings.size,
+      };
+      console.log(
+        `Cached catalog section: ${key} (${listings.size} of ${catalogSection.total})`,
+      );
+      return catalogSection;
+    },
+    ttlMs,
   );
-  if (cachedSection) {
-    console.log(`Using cached catalog section: ${key}`);
-    return cachedSection;
+  if (!result) {
+    throw new Error(`Catalog section ${key} could not be fetched`);
   }
 
-  const response = await axios<SteamResult>(
-    `https://store.steampowered.com/search/results/?filter=globaltopsellers&ignore_preferences=1&json=1&hidef2p=1&category1=998&category2=${category}`,
-    {
-      headers: {
-        "User-Agent": "OGI Steam-Integration/1.0.0",
-      },
-    },
-  );
-  const section: CatalogSection = {
-    key,
-    name,
-    description,
-    listings: extractApps(response.data.items),
-  };
+  if (result.stale) {
+    console.log(
+      `Using stale catalog section: ${key} (${formatAge(result.ageMs)} old), refreshing in background`,
+    );
+    return { ...result.data, staleAgeMs: result.ageMs };
+  }
+  return result.data;
+}
 
-  // Cache the result
-  setCachedData(CATALOG_CACHE_FILE, key, section);
-  console.log(`Cached catalog section: ${key}`);
+// Store tag IDs for the app info genres, so genres can count towards tags
+const GENRE_TAGS: Record<string, string> = {
+  "1": "19", // Action
+  "2": "9", // Strategy
+  "3": "122", // RPG
+  "4": "597", // Casual
+  "9": "699", // Racing
+  "18": "701", // Sports
+  "23": "492", // Indie
+  "25": "21", // Adventure
+  "28": "599", // Simulation
+  "29": "128", // Massively Multiplayer
+  "37": "113", // Free to Play
+};
+// Tags the recommendations are narrowed by; more would match too few games
+const RECOMMENDED_TAG_COUNT = 2;
+// Owned games whose missing app info is fetched in the background per catalog
+// load; recommendations only use cached app info so the catalog never waits
+const RECOMMENDATION_FETCH_LIMIT = 10;
 
-  return section;
+/**
+ * Weighted tag counts across the library. A game's tags are ordered by how
+ * many players applied them, so earlier tags weigh more; genres add to the
+ * matching tag.
+ */
+function countLibraryTags(appInfos: SteamAppInfo[]): Map<string, number> {
+  const weights = new Map<string, number>();
+  const add = (tag: string, weight: number) =>
+    weights.set(tag, (weights.get(tag) ?? 0) + weight);
+  for (const appInfo of appInfos) {
+    Object.values(appInfo.common.store_tags ?? {}).forEach((tag, index) =>
+      add(tag, 1 / (index + 1)),
+    );
+    for (const genre of Object.values(appInfo.common.genres ?? {})) {
+      if (GENRE_TAGS[genre]) {
+        add(GENRE_TAGS[genre], 0.5);
+      }
+    }
+  }
+  return weights;
 }
 
-async function fetchSteamCatalog(
-  filters: string,
-  key: string,
-  name: string,
-  description: string,
+/**
+ * Top sellers sharing the library's most common tags, without the games the
+ * user already has. Named after the owned game that best matches them.
+ */
+async function fetchRecommendedSection(
+  section: CatalogSectionDefinition,
 ): Promise<CatalogSection> {
-  // Check cache first
-  const cachedSection = getCachedData<CatalogSection>(
-    CATALOG_CACHE_FILE,
-    key,
-    CATALOG_CACHE_DURATION_MS,
-  );
-  if (cachedSection) {
-    console.log(`Using cached catalog section: ${key}`);
-    return cachedSection;
+  const location = ogiLibrary.locate();
+  if (!location) {
+    throw new Error("OGI library not found, skipping recommendations");
+  }
+  const owned = ogiLibrary
+    .listEntries(location)
+    .filter((entry) => entry.storefront === "steam");
+  if (owned.length === 0) {
+    throw new Error("No Steam games in the library to recommend from");
   }
 
-  const response = await axios<SteamResult>(
-    `https://store.steampowered.com/search/results/?filter=globaltopsellers&ignore_preferences=1&json=1&hidef2p=1&category1=998&${filters}`,
-    {
-      headers: {
-        "User-Agent": "OGI Steam-Integration/1.0.0",
-      },
-    },
-  );
-  const section: CatalogSection = {
-    key,
-    name,
-    description,
-    listings: extractApps(response.data.items),
+  const appInfos: SteamAppInfo[] = [];
+  const uncached: number[] = [];
+  for (const entry of owned) {
+    const cached = steamAppInfoCache.getIgnoringTtl(entry.appID.toString());
+    const appInfo = cached?.data.data[entry.appID];
+    if (appInfo) {
+      appInfos.push(appInfo);
+    } else {
+      uncached.push(entry.appID);
+    }
+  }
+  // Warm the cache for later catalog loads without holding this one back
+  if (uncached.length > 0 && !isOffline()) {
+    Promise.allSettled(
+      uncached
+        .slice(0, RECOMMENDATION_FETCH_LIMIT)
+        .map((appID) => getSteamAppInfo(appID, true)),
+    ).then(() =>
+      console.log(
+        `Fetched app info for ${Math.min(uncached.length, RECOMMENDATION_FETCH_LIMIT)} library games for recommendations`,
+      ),
+    );
+  }
+
+  const tags = [...countLibraryTags(appInfos)]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, RECOMMENDED_TAG_COUNT)
+    .map(([tag]) => tag);
+  if (tags.length === 0) {
+    throw new Error("No store tags found for the library's games");
+  }
+  // The owned game sharing the most of the chosen tags
+  const [bestMatch] = appInfos
+    .map((appInfo) => ({
+      name: appInfo.common.name,
+      matches: Object.values(appInfo.common.store_tags ?? {}).filter((tag) =>
+        tags.includes(tag),
+      ).length,
+    }))
+    .sort((a, b) => b.matches - a.matches);
+
+  const ownedIDs = new Set(owned.map((entry) => entry.appID));
+  const recommended = await fetchCatalogSection({
+    ...section,
+    value: `tags=${tags.join(",")}`,
+    key: `${section.key}-${tags.join("-")}`,
+  });
+  return {
+    ...recommended,
+    key: section.key,
+    name: bestMatch ? `Because you own ${bestMatch.name}` : section.name,
+    listings: recommended.listings.filter(
+      (listing) => !ownedIDs.has(listing.appID),
+    ),
   };
+}
 
-  // Cache the result
-  setCachedData(CATALOG_CACHE_FILE, key, section);
-  console.log(`Cached catalog section: ${key}`);
+/**
+ * A section's description, noting how many games match it on Steam and how
+ * old stale listings are
+ */
+function formatSectionDescription(section: CatalogSection): string {
+  let description = section.description;
+  if (section.total !== undefined && section.total > section.listings.length) {
+    description += ` (top ${section.listings.length} of ${section.total.toLocaleString()})`;
+  }
+  if (section.staleAgeMs !== undefined) {
+    description += ` (last updated ${formatAge(section.staleAgeMs)} ago)`;
+  }
+  return description;
+}
+
+// Carousel games enriched at once, and how long the catalog waits for them
+const CAROUSEL_CONCURRENCY = 4;
+const CAROUSEL_DEADLINE_MS = 5 * 1000;
+
+async function getCarouselItem(
+  listing: BasicLibraryInfo,
+): Promise<CatalogCarouselItem | undefined> {
+  const [realGame, steamAppInfo] = await Promise.all([
+    getRealGame(listing.appID, true),
+    getSteamAppInfo(listing.appID, true),
+  ]);
+  if (!realGame || !steamAppInfo || !steamAppInfo.data[listing.appID]) {
+    return undefined;
+  }
+  const headerImage =
+    getLocalizedAssetUrl(listing.appID, {
+      image: steamAppInfo.data[listing.appID].common.header_image,
+    }) ?? listing.capsuleImage;
+  return {
+    ...listing,
+    description: realGame.short_description,
+    carouselImage: headerImage,
+    fullBannerImage: headerImage,
+  };
+}
+
+/**
+ * Enrich carousel listings with a few requests at a time, each game once even
+ * if it tops several sections. Whatever is ready by CAROUSEL_DEADLINE_MS is
+ * returned; the rest keeps loading in the background and fills the caches
+ * for the next catalog load.
+ */
+async function buildCarousel(
+  listings: BasicLibraryInfo[],
+): Promise<Record<string, CatalogCarouselItem>> {
+  const unique = [
+    ...new Map(listings.map((listing) => [listing.appID, listing])).values(),
+  ];
+  const items: (CatalogCarouselItem | undefined)[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < unique.length) {
+      const index = next++;
+      try {
+        items[index] = await getCarouselItem(unique[index]);
+      } catch (e) {
+        console.error(
+          `Error building carousel item ${unique[index].appID}:`,
+          e,
+        );
+      }
+    }
+  };
+  const workers = Promise.all(
+    Array.from(
+      { length: Math.min(CAROUSEL_CONCURRENCY, unique.length) },
+      worker,
+    ),
+  );
+
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = await Promise.race([
+    workers.then(() => false),
+    new Promise<boolean>((resolve) => {
+      deadline = setTimeout(() => resolve(true), CAROUSEL_DEADLINE_MS);
+    }),
+  ]);
+  clearTimeout(deadline);
 
-  return section;
+  // Items still loading past the deadline are left out
+  const carousel: Record<string, CatalogCarouselItem> = {};
+  for (const item of items) {
+    if (item) {
+      carousel[item.appID] = item;
+    }
+  }
+  if (timedOut) {
+    console.log(
+      `Carousel deadline reached: returning ${Object.keys(carousel).length} of ${unique.length} games`,
+    );
+  }
+  return carousel;
 }
 
 addon.on("catalog", (event) => {
   event.defer(async () => {
-    const promises = await Promise.allSettled([
-      // -- Top Sellers --
-      fetchSteamCatalog(
-        "",
-        "top-sellers",
-        "Top Sellers",
-        "The best selling games on Steam",
-      ),
-      // -- Roguelike --
-      fetchSteamCatalogByTag(
-        1716,
-        "roguelike",
-        "Roguelike",
-        "Top Roguelike games on Steam",
-      ),
-      // -- JRPGs --
-      fetchSteamCatalogByTag(4434, "jrpg", "JRPG", "Top JRPG games on Steam"),
-      // -- Multiplayer --
-      fetchSteamCatalogByCategory(
-        1,
-        "multiplayer",
-        "Multiplayer",
-        "Top multiplayer games on Steam",
-      ),
-      // -- Co-op --
-      fetchSteamCatalogByCategory(
-        9,
-        "coop",
-        "Co-op",
-        "Top co-op games on Steam",
-      ),
-      // -- Single-player --
-      fetchSteamCatalogByCategory(
-        2,
-        "singleplayer",
-        "Single-player",
-        "Top single-player games on Steam",
-      ),
-      // -- VR Support --
-      fetchSteamCatalogByCategory(
-        31,
-        "vr",
-        "VR Support",
-        "Top VR games on Steam",
+    const promises = await Promise.allSettled(
+      CATALOG_SECTIONS.map((section) =>
+        section.kind === "recommended"
+          ? fetchRecommendedSection(section)
+          : fetchCatalogSection(section),
       ),
-      // -- Full Controller Support --
-      fetchSteamCatalogByCategory(
-        28,
-        "controller",
-        "Full Controller Support",
-        "Top games with full controller support",
-      ),
-      // -- PvP --
-      fetchSteamCatalogByCategory(49, "pvp", "PvP", "Top PvP games on Steam"),
-      // -- Remote Play Together --
-      fetchSteamCatalogByCategory(
-        44,
-        "remote-play",
-        "Remote Play Together",
-        "Games that support Remote Play Together",
-      ),
-    ]);
+    );
 
     // Filter out rejected promises and extract successful results
     const sections = promises
@@ -1411,41 +2867,15 @@ addon.on("catalog", (event) => {
     for (const section of sections) {
       catalogResults[section.key] = {
         name: section.name,
-        description: section.description,
+        description: formatSectionDescription(section),
         listings: section.listings,
       };
     }
 
     // Build featured carousel from top 2 of each section
-    const carouselItems: Record<string, CatalogCarouselItem> = {};
-    for (const section of sections) {
-      for (const listing of section.listings.slice(0, 2)) {
-        const realGame = await getRealGame(listing.appID, true);
-        if (!realGame) {
-          continue;
-        }
-        // get the steam api info for the game
-        const steamAppInfo = await getSteamAppInfo(listing.appID, true);
-        if (!steamAppInfo || !steamAppInfo.data[listing.appID]) {
-          continue;
-        }
-        const baseAssetUrl = BASE_ASSET_URL(listing.appID);
-        carouselItems[listing.appID] = {
-          ...listing,
-          description: realGame.short_description,
-          carouselImage:
-            baseAssetUrl +
-            (steamAppInfo.data[listing.appID].common.header_image![
-              "english"
-            ]! ?? listing.capsuleImage),
-          fullBannerImage:
-            baseAssetUrl +
-            (steamAppInfo.data[listing.appID].common.header_image![
-              "english"
-            ]! ?? listing.capsuleImage),
-        };
-      }
-    }
+    const carouselItems = await buildCarousel(
+      sections.flatMap((section) => section.listings.slice(0, 2)),
+    );
 
     event.resolve({
       sections: catalogResults,
@@ -1454,112 +2884,429 @@ addon.on("catalog", (event) => {
   });
 });
 
-let req = 0;
+/**
+ * The last build seen for an app, from the update cache or cached app info,
+ * regardless of age
+ */
+function getLastKnownBuild(appID: number): UpdateCacheEntry | undefined {
+  const cachedUpdate = updateCache.getIgnoringTtl(appID.toString());
+  if (cachedUpdate) {
+    return cachedUpdate;
+  }
+  const cachedAppInfo = steamAppInfoCache.getIgnoringTtl(appID.toString());
+  const appInfo = cachedAppInfo?.data.data[appID];
+  return appInfo
+    ? {
+        ...getBuildSnapshot(appInfo, appID),
+        timestamp: cachedAppInfo!.timestamp,
+      }
+    : undefined;
+}
+
+/**
+ * Answer an update check without Steam: report the last known build and only
+ * flag an update when the installed build is in the build history and older
+ * than the last known one. A build installed after the last check isn't known
+ * yet, so it is not reported as outdated.
+ */
+function getOfflineUpdateResult(
+  appID: number,
+  currentVersion: string,
+): UpdateCheckResult {
+  const installedVersion = isPlaceholderVersion(currentVersion)
+    ? getInstalledVersion(appID)
+    : currentVersion;
+  const lastKnownBuild = getLastKnownBuild(appID);
+  console.log(
+    `Offline: last known build for ${appID} is ${lastKnownBuild?.version ?? "unknown"}`,
+  );
+  const buildsBehind =
+    installedVersion === undefined
+      ? undefined
+      : countBuildsBehind(appID, installedVersion);
+  if (!lastKnownBuild || installedVersion === undefined || !buildsBehind) {
+    return {
+      version: lastKnownBuild?.version ?? currentVersion,
+      available: false,
+    };
+  }
+  return buildUpdateResult(appID, lastKnownBuild, installedVersion);
+}
+
+/**
+ * Once a game checks for updates with a real version again, the forced update
+ * went through and its library backup is no longer needed
+ */
+function discardLibraryBackupAfterUpdate(
+  appID: number,
+  currentVersion: string,
+): void {
+  if (currentVersion === FORCED_UPDATE_VERSION) {
+    return;
+  }
+  try {
+    if (ogiLibrary.deleteBackup(appID)) {
+      console.log(`Removed the library backup for ${appID}`);
+    }
+  } catch (e) {
+    console.error(`Error removing the library backup for ${appID}:`, e);
+  }
+}
+
 addon.on(
   "check-for-updates",
   ({ appID, storefront, currentVersion }, event) => {
-    req++;
-    console.log("Checking for updates for " + appID + " (" + req + ")");
+    console.log("Checking for updates for " + appID);
     event.defer(async () => {
+      if (isOffline()) {
+        event.resolve(getOfflineUpdateResult(appID, currentVersion));
+        return;
+      }
+
       // Check cache first - return immediately if cached
-      // handle resolving 1.0 file versions with auto resolution
-      if (currentVersion === "1.0" || currentVersion === "1.0.0") {
-        // assume that the current version is the latest version as stored by the resolver
-        currentVersion = await resolve10FileVersion(appID);
+      // reconcile "1.0" placeholder versions with the actually installed build
+      if (isPlaceholderVersion(currentVersion)) {
+        currentVersion = await resolveInstalledVersion(appID);
         console.log(
-          "Resolved 1.0 file version for " +
-            appID +
-            " to " +
-            currentVersion +
-            " (" +
-            req +
-            ")",
+          "Resolved 1.0 file version for " + appID + " to " + currentVersion,
         );
       }
 
       // if the update is already cached, return the result immediately
       const cachedUpdate = getCachedUpdate(appID);
       if (cachedUpdate) {
-        event.resolve({
-          version: cachedUpdate.version,
-          available: cachedUpdate.version !== currentVersion,
-        });
+        discardLibraryBackupAfterUpdate(appID, currentVersion);
+        event.resolve(buildUpdateResult(appID, cachedUpdate, currentVersion));
         return;
       }
 
-      await new Promise((resolve) =>
-        setTimeout(resolve, UPDATE_COOLDOWN_MS * req),
-      );
-
       // Cache miss - queue the request for API call and return the result
-      const result = await queueUpdateCheck(appID, currentVersion);
-      event.resolve(result);
+      try {
+        const result = await queueUpdateCheck(appID, currentVersion);
+        discardLibraryBackupAfterUpdate(appID, currentVersion);
+        event.resolve(result);
+      } catch (error) {
+        if (!isOffline()) {
+          throw error;
+        }
+        event.resolve(getOfflineUpdateResult(appID, currentVersion));
+      }
     });
   },
 );
 
-addon.on("disconnect", () => {
+addon.on("disconnect", async () => {
   // Clean up the cache cleanup interval
   if (cacheCleanupInterval) {
     clearInterval(cacheCleanupInterval);
     cacheCleanupInterval = null;
   }
+  // Persist pending cache writes before exiting
+  await flushAllCaches();
   process.exit(0);
 });
 
-// 1.0 file version auto resolution
-type Resolved10FileVersions = {
+// Installed version reconciliation for games whose library version is the
+// "1.0" placeholder. Each resolved build is recorded with where it came from.
+type InstalledVersionSource =
+  // the buildid in the appmanifest_<id>.acf next to the OGI install
+  | "steam-appmanifest"
+  // no evidence: assumed to be the latest build when first checked
+  | "assumed-latest";
+
+type InstalledVersionRecord = {
+  version: string;
+  source: InstalledVersionSource;
+  /** Where the evidence was found, e.g. the appmanifest path */
+  evidence?: string;
+  resolvedAt: number;
+};
+
+type InstalledVersions = {
+  [appID: number]: InstalledVersionRecord;
+};
+
+// Keeps the old file name so versions resolved by earlier releases carry over
+const INSTALLED_VERSIONS_FILE = join(CACHE_DIR, "resolved10FileVersions.json");
+let installedVersions: InstalledVersions = {};
+for (const [appID, record] of Object.entries(
+  readJsonFile<Record<string, string | InstalledVersionRecord>>(
+    INSTALLED_VERSIONS_FILE,
+  ) ?? {},
+)) {
+  // Earlier releases stored only the assumed-latest buildid
+  installedVersions[parseInt(appID)] =
+    typeof record === "string"
+      ? { version: record, source: "assumed-latest", resolvedAt: 0 }
+      : record;
+}
+
+// Per-game branch preference: appID -> branch name (defaults to "public")
+type BranchPreferences = {
   [appID: number]: string;
 };
 
-const RESOLVED_10_FILE_VERSIONS_FILE = join(
-  CACHE_DIR,
-  "resolved10FileVersions.json",
-);
-let resolved10FileVersions: Resolved10FileVersions = {};
-if (fs.existsSync(RESOLVED_10_FILE_VERSIONS_FILE)) {
-  resolved10FileVersions = JSON.parse(
-    fs.readFileSync(RESOLVED_10_FILE_VERSIONS_FILE, "utf-8"),
-  );
+const BRANCH_PREFERENCES_FILE = join(CACHE_DIR, "branch-preferences.json");
+const branchPreferences: BranchPreferences =
+  readJsonFile<BranchPreferences>(BRANCH_PREFERENCES_FILE) ?? {};
+
+function getPreferredBranch(appID: number): string {
+  return branchPreferences[appID] ?? "public";
+}
+
+function setPreferredBranch(appID: number, branch: string): void {
+  if (branch === "public") {
+    delete branchPreferences[appID];
+  } else {
+    branchPreferences[appID] = branch;
+  }
+  try {
+    writeJsonFile(BRANCH_PREFERENCES_FILE, branchPreferences);
+  } catch (e) {
+    console.error("Error saving branch preferences:", e);
+  }
+}
+
+/**
+ * The user's preferred branch, falling back to public when the branch no
+ * longer exists
+ */
+function resolveBranch(appInfo: SteamAppInfo, appID: number): string {
+  const branch = getPreferredBranch(appID);
+  if (
+    branch !== "public" &&
+    appInfo.depots?.branches?.[branch]?.buildid === undefined
+  ) {
+    console.log(
+      `Branch ${branch} not found for ${appID}, falling back to public`,
+    );
+    return "public";
+  }
+  return branch;
+}
+
+function getBranchBuildId(
+  appInfo: SteamAppInfo,
+  appID: number,
+): string | undefined {
+  return appInfo.depots?.branches?.[resolveBranch(appInfo, appID)]?.buildid;
+}
+
+/**
+ * Branches anyone can opt into, i.e. not password protected, newest first
+ */
+function listPublicBranches(
+  appInfo: SteamAppInfo,
+): (SteamBranch & { name: string })[] {
+  return Object.entries(appInfo.depots?.branches ?? {})
+    .filter(([, branch]) => branch.pwdrequired !== "1" && branch.buildid)
+    .map(([name, branch]) => ({ name, ...branch }))
+    .sort(
+      (a, b) => parseInt(b.timeupdated ?? "0") - parseInt(a.timeupdated ?? "0"),
+    );
+}
+
+// Launch options for the user's OS and branch, from the app info's config
+type ResolvedLaunchOption = {
+  /** Path relative to the install directory, with this OS's separators */
+  executable: string;
+  arguments: string;
+  description?: string;
+  /** A Windows executable offered on Linux, which has to run through Proton */
+  viaProton: boolean;
+};
+
+const STEAM_OS_NAMES: Partial<Record<NodeJS.Platform, string>> = {
+  win32: "windows",
+  darwin: "macos",
+  linux: "linux",
+};
+
+/**
+ * The launch options that apply to this OS and the user's branch, best match
+ * first: branch specific entries, then 64-bit entries, then Steam's order.
+ * Linux falls back to the Windows entries when there is no native build.
+ */
+function getLaunchOptions(
+  appInfo: SteamAppInfo,
+  appID: number,
+): ResolvedLaunchOption[] {
+  const branch = resolveBranch(appInfo, appID);
+  const launchEntries = Object.entries(appInfo.config?.launch ?? {})
+    .filter(([, launch]) => launch.executable)
+    .filter(
+      ([, launch]) =>
+        !launch.config?.betakey ||
+        launch.config.betakey.split(/[ ,]/).includes(branch),
+    );
+
+  // Entries without their own oslist run wherever the app does; only when
+  // neither says anything does an entry count for every OS
+  const getOSList = (launch: SteamLaunchOption) =>
+    (launch.config?.oslist ?? appInfo.common.oslist)
+      ?.split(",")
+      .map((os) => os.trim());
+  const forOS = (os: string | undefined) =>
+    launchEntries
+      .filter(([, launch]) => {
+        const osList = getOSList(launch);
+        return !osList || osList.includes(os ?? "");
+      })
+      .sort(
+        ([idA, a], [idB, b]) =>
+          Number(!!b.config?.betakey) - Number(!!a.config?.betakey) ||
+          Number(b.config?.osarch === "64") -
+            Number(a.config?.osarch === "64") ||
+          parseInt(idA) - parseInt(idB),
+      )
+      .map(([, launch]) => launch);
+
+  const os = STEAM_OS_NAMES[process.platform];
+  let launches = forOS(os);
+  if (launches.length === 0 && os === "linux") {
+    launches = forOS("windows");
+  }
+
+  return launches.map((launch) => {
+    const osList = getOSList(launch);
+    return {
+      executable: join(...launch.executable!.split(/[\\/]/)),
+      arguments: launch.arguments ?? "",
+      description: pickLocalized(launch.description_loc) ?? launch.description,
+      // Any entry that isn't for Linux itself runs through Proton
+      viaProton:
+        os === "linux" && osList !== undefined && !osList.includes("linux"),
+    };
+  });
 }
 
 function clearCachesForSteamApp(appID: number): void {
   removeCachedUpdate(appID);
-  removeCachedGenericKey<SteamAppInfoResponse>(
-    STEAM_APP_INFO_CACHE_FILE,
-    appID.toString(),
+  steamAppInfoCache.delete(appID.toString());
+  realGameCache.deleteWhere((key) => isRegionalCacheKeyFor(key, appID));
+  dlcCache.deleteWhere((key) => isRegionalCacheKeyFor(key, appID));
+  if (installedVersions[appID]) {
+    delete installedVersions[appID];
+    saveInstalledVersions();
+  }
+}
+
+function saveInstalledVersions(): void {
+  try {
+    writeJsonFile(INSTALLED_VERSIONS_FILE, installedVersions);
+  } catch (e) {
+    console.error("Error saving installed versions:", e);
+  }
+}
+
+function isPlaceholderVersion(version: string | undefined): boolean {
+  return version === "1.0" || version === "1.0.0";
+}
+
+/**
+ * The recorded installed build for an app, if it has been resolved
+ */
+function getInstalledVersion(appID: number): string | undefined {
+  return installedVersions[appID]?.version;
+}
+
+/**
+ * Where an appmanifest_<id>.acf describing the OGI install would be: next to
+ * or above the install directory (steamapps/common/<game>). The Steam
+ * client's own libraries are left out since their manifests describe Steam's
+ * copy of the game, not OGI's.
+ */
+function getAppManifestCandidates(appID: number, installDir: string): string[] {
+  return [installDir, dirname(installDir), dirname(dirname(installDir))].map(
+    (directory) => join(directory, `appmanifest_${appID}.acf`),
   );
-  removeCachedGenericKey<GameData>(REAL_GAME_CACHE_FILE, appID.toString());
-  if (resolved10FileVersions[appID]) {
-    delete resolved10FileVersions[appID];
-    fs.writeFileSync(
-      RESOLVED_10_FILE_VERSIONS_FILE,
-      JSON.stringify(resolved10FileVersions, null, 2),
-    );
+}
+
+/**
+ * Find evidence of the installed build: the buildid in the appmanifest
+ * belonging to the OGI install
+ */
+function findInstalledVersionEvidence(
+  appID: number,
+): Omit<InstalledVersionRecord, "resolvedAt"> | undefined {
+  const location = ogiLibrary.locate();
+  let library: LibraryEntry | undefined;
+  try {
+    library = location ? ogiLibrary.readEntry(location, appID) : undefined;
+  } catch (e) {
+    console.error(`Error reading library entry for ${appID}:`, e);
+  }
+  if (!library?.cwd) {
+    return undefined;
+  }
+
+  for (const manifestPath of getAppManifestCandidates(appID, library.cwd)) {
+    try {
+      if (!fs.existsSync(manifestPath)) {
+        continue;
+      }
+      const buildid = fs
+        .readFileSync(manifestPath, "utf8")
+        .match(/"buildid"\s+"(\d+)"/i)?.[1];
+      if (buildid) {
+        return {
+          version: buildid,
+          source: "steam-appmanifest",
+          evidence: manifestPath,
+        };
+      }
+    } catch (e) {
+      console.error(`Error reading ${manifestPath}:`, e);
+    }
   }
-  lastApiCallTime.delete(appID);
+  return undefined;
 }
 
-async function resolve10FileVersion(appID: number) {
-  if (resolved10FileVersions[appID]) {
-    return resolved10FileVersions[appID];
+/**
+ * Resolve the installed build of a game whose library version is "1.0".
+ * Evidence on disk is re-read on every check so updates made through Steam
+ * are picked up; only without any evidence is the game assumed to be on the
+ * latest build the first time it is checked.
+ */
+async function resolveInstalledVersion(appID: number): Promise<string> {
+  const existing = installedVersions[appID];
+  const evidence = findInstalledVersionEvidence(appID);
+  if (evidence) {
+    if (
+      existing?.version !== evidence.version ||
+      existing.source !== evidence.source
+    ) {
+      installedVersions[appID] = { ...evidence, resolvedAt: Date.now() };
+      saveInstalledVersions();
+      console.log(
+        `Installed build of ${appID} is ${evidence.version} (from ${evidence.source}: ${evidence.evidence})`,
+      );
+    }
+    return evidence.version;
+  }
+
+  if (existing) {
+    return existing.version;
   }
+
   const steamAppInfo = await getSteamAppInfo(appID);
   if (!steamAppInfo) {
     return "1.0";
   }
 
-  // get the current version and assume that our version is the latest as to prevent issues where all games are outdated.
-  // this functionality will be removed in the future.
-  const version =
-    steamAppInfo.data[appID].common.public_only === undefined
-      ? steamAppInfo?.data[appID].depots.branches!["public"].buildid!
-      : "1.0";
-  resolved10FileVersions[appID] = version;
-  fs.writeFileSync(
-    RESOLVED_10_FILE_VERSIONS_FILE,
-    JSON.stringify(resolved10FileVersions, null, 2),
+  // No evidence of the installed build: assume the latest so that games
+  // without an appmanifest aren't all reported as outdated
+  const snapshot = getBuildSnapshot(steamAppInfo.data[appID], appID);
+  recordBuild(appID, snapshot);
+  installedVersions[appID] = {
+    version: snapshot.version,
+    source: "assumed-latest",
+    resolvedAt: Date.now(),
+  };
+  saveInstalledVersions();
+  console.log(
+    `No evidence of the installed build of ${appID}, assuming latest (${snapshot.version})`,
   );
-  return version;
+  return snapshot.version;
 }
 